@@ -1,17 +1,24 @@
 import * as vscode from 'vscode';
 import { KnowledgeHubClient, EnhancedContext } from './knowledgehub-client';
+import { PromptBuilder, PromptBudget, PromptBuildReport } from './prompt-builder';
+import { PromptTemplateRegistry, PromptTemplateKind, RenderedPrompt } from './prompt-templates';
+import { resolveWorkspaceFolder } from './workspace-resolver';
+import { GitContextService } from './git-context';
 
 export interface AIRequest {
     prompt: string;
     context?: any;
     provider?: string;
     model?: string;
+    // Tokens the target model accepts; looked up from the model name when omitted
+    contextWindow?: number;
 }
 
 export interface EnhancedAIRequest extends AIRequest {
     enhancedPrompt: string;
     knowledgeHubContext: EnhancedContext;
     vscodeContext: VSCodeContext;
+    promptReport?: PromptBuildReport;
 }
 
 export interface VSCodeContext {
@@ -28,9 +35,15 @@ export class AIEnhancementLayer {
     private knowledgeHub: KnowledgeHubClient;
     private isActive: boolean = false;
     private requestInterceptors: Map<string, Function> = new Map();
+    private promptTemplates: PromptTemplateRegistry;
+    private gitContext: GitContextService;
+    private outputChannel: vscode.OutputChannel;
 
-    constructor(knowledgeHub: KnowledgeHubClient) {
+    constructor(knowledgeHub: KnowledgeHubClient, promptTemplates: PromptTemplateRegistry, gitContext: GitContextService, outputChannel: vscode.OutputChannel) {
         this.knowledgeHub = knowledgeHub;
+        this.promptTemplates = promptTemplates;
+        this.gitContext = gitContext;
+        this.outputChannel = outputChannel;
     }
 
     async start(): Promise<void> {
@@ -57,26 +70,22 @@ export class AIEnhancementLayer {
             // Gather VS Code context
             const vscodeContext = await this.gatherVSCodeContext();
             
-            // Get KnowledgeHub enhanced context
+            // Get KnowledgeHub enhanced context; the client adds the full git state
             const knowledgeHubContext = await this.knowledgeHub.getEnhancedContext({
                 query: originalRequest.prompt,
                 currentFile: vscodeContext.activeFile,
-                workspaceRoot: vscodeContext.workspaceRoot,
-                recentChanges: vscodeContext.recentChanges
+                workspaceRoot: vscodeContext.workspaceRoot
             });
 
             // Create enhanced prompt
-            const enhancedPrompt = await this.createEnhancedPrompt(
-                originalRequest.prompt,
-                knowledgeHubContext,
-                vscodeContext
-            );
+            const rendered = this.createEnhancedPrompt(originalRequest, knowledgeHubContext, vscodeContext);
 
             return {
                 ...originalRequest,
-                enhancedPrompt,
+                enhancedPrompt: rendered.text,
                 knowledgeHubContext,
-                vscodeContext
+                vscodeContext,
+                promptReport: rendered.report
             };
         } catch (error) {
             console.error('Failed to enhance AI request:', error);
@@ -124,15 +133,8 @@ export class AIEnhancementLayer {
     }
 
     private async registerGenericAIInterceptor(): Promise<void> {
-        // Register generic interceptor for any AI completion providers
-        vscode.languages.registerInlineCompletionItemProvider(
-            '*',
-            {
-                provideInlineCompletionItems: async (document, position, context, token) => {
-                    return this.enhanceInlineCompletion(document, position, context, token);
-                }
-            }
-        );
+        // Inline completions are served by KnowledgeHubInlineCompletionProvider
+        // when knowledgehub.completion.enabled is set
         console.log('✅ Generic AI interceptor registered');
     }
 
@@ -164,33 +166,6 @@ export class AIEnhancementLayer {
         console.log('🔌 Intercepting Claude Dev requests...');
     }
 
-    private async enhanceInlineCompletion(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        context: vscode.InlineCompletionContext,
-        token: vscode.CancellationToken
-    ): Promise<vscode.InlineCompletionItem[]> {
-        
-        // Get context around cursor position
-        const lineText = document.lineAt(position).text;
-        const textBeforeCursor = lineText.substring(0, position.character);
-        
-        // Create enhanced request
-        const enhancedRequest = await this.enhanceAIRequest({
-            prompt: textBeforeCursor,
-            context: {
-                document: document.fileName,
-                position,
-                lineText
-            }
-        });
-
-        // Return enhanced completion items
-        // Note: This is a simplified example - actual implementation would
-        // depend on the specific AI provider's API
-        return [];
-    }
-
     private async enhanceCompletionItems(items: vscode.CompletionItem[]): Promise<vscode.CompletionItem[]> {
         // Enhance completion items with KnowledgeHub insights
         return items.map(item => {
@@ -202,93 +177,100 @@ export class AIEnhancementLayer {
 
     private async gatherVSCodeContext(): Promise<VSCodeContext> {
         const activeEditor = vscode.window.activeTextEditor;
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        // Folder and branch of the file being worked on, not the first folder
+        const workspaceFolder = resolveWorkspaceFolder(activeEditor?.document.uri);
+        const git = await this.gitContext.getContext(activeEditor?.document.uri);
         
         return {
             activeFile: activeEditor?.document.fileName || '',
             workspaceRoot: workspaceFolder?.uri.fsPath || '',
-            gitBranch: await this.getCurrentGitBranch(),
+            gitBranch: git?.head ?? this.gitContext.getHeadLabel(activeEditor?.document.uri),
             openFiles: vscode.workspace.textDocuments.map(doc => doc.fileName),
-            recentChanges: this.getRecentChanges(),
+            // Uncommitted files with line counts and size-capped patches
+            recentChanges: git?.diffSummary ?? [],
             cursorPosition: activeEditor?.selection.active,
             selectedText: activeEditor?.document.getText(activeEditor.selection)
         };
     }
 
-    private async createEnhancedPrompt(
-        originalPrompt: string,
-        knowledgeHubContext: EnhancedContext,
-        vscodeContext: VSCodeContext
-    ): Promise<string> {
-        const config = vscode.workspace.getConfiguration('knowledgehub');
-        const enhancementLevel = config.get<string>('ai.enhancementLevel', 'maximum');
-
-        if (enhancementLevel === 'minimal') {
-            return `${originalPrompt}\n\n[Project: ${vscodeContext.workspaceRoot}]`;
+    /**
+     * Renders the prompt for the given enhancement level whether or not
+     * enhancement is switched on, falling back to placeholder project context
+     * when the server is unreachable.
+     */
+    async previewEnhancedPrompt(prompt: string, level: PromptTemplateKind): Promise<RenderedPrompt> {
+        const vscodeContext = await this.gatherVSCodeContext();
+        let knowledgeHubContext: EnhancedContext;
+        try {
+            knowledgeHubContext = await this.knowledgeHub.getEnhancedContext({
+                query: prompt,
+                currentFile: vscodeContext.activeFile,
+                workspaceRoot: vscodeContext.workspaceRoot
+            });
+        } catch {
+            knowledgeHubContext = {
+                projectSummary: '(project summary from KnowledgeHub)',
+                relevantDecisions: ['(relevant decision)'],
+                relevantPatterns: ['(relevant pattern)'],
+                currentBranch: vscodeContext.gitBranch,
+                recentChanges: vscodeContext.recentChanges,
+                suggestions: ['(suggestion)']
+            };
         }
 
-        if (enhancementLevel === 'standard') {
-            return `
-# Context from KnowledgeHub AI Intelligence
-
-## Current File: ${vscodeContext.activeFile}
-## Git Branch: ${vscodeContext.gitBranch}
-
-## Recent Project Patterns:
-${knowledgeHubContext.relevantPatterns.slice(0, 3).join('\n')}
+        return this.createEnhancedPrompt({ prompt }, knowledgeHubContext, vscodeContext, level);
+    }
 
-## Original Request:
-${originalPrompt}
-`;
+    private createEnhancedPrompt(
+        originalRequest: AIRequest,
+        knowledgeHubContext: EnhancedContext,
+        vscodeContext: VSCodeContext,
+        level?: PromptTemplateKind
+    ): RenderedPrompt {
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+        const enhancementLevel = level ?? config.get<PromptTemplateKind>('ai.enhancementLevel', 'maximum');
+        const provider = originalRequest.provider ?? config.get<string>('ai.primaryProvider', 'auto');
+        const language = vscode.window.activeTextEditor?.document.languageId ?? '';
+
+        const template = this.promptTemplates.resolve(enhancementLevel, { provider, language });
+        const rendered = this.promptTemplates.render(template, {
+            prompt: originalRequest.prompt,
+            projectSummary: knowledgeHubContext.projectSummary,
+            decisions: knowledgeHubContext.relevantDecisions,
+            patterns: knowledgeHubContext.relevantPatterns,
+            suggestions: knowledgeHubContext.suggestions,
+            selectedText: vscodeContext.selectedText || '',
+            gitBranch: vscodeContext.gitBranch,
+            activeFile: vscodeContext.activeFile,
+            workspaceRoot: vscodeContext.workspaceRoot,
+            language,
+            provider,
+            model: originalRequest.model || '',
+            codeBefore: '',
+            codeAfter: ''
+        }, this.getPromptBudget(originalRequest));
+
+        if (rendered.report) {
+            this.logPromptReport(rendered.report);
         }
-
-        // Maximum enhancement
-        return `
-# Enhanced Context from KnowledgeHub AI Intelligence
-
-## Project Context:
-${knowledgeHubContext.projectSummary}
-
-## Relevant Past Decisions:
-${knowledgeHubContext.relevantDecisions.slice(0, 3).map(decision => `- ${decision}`).join('\n')}
-
-## Known Patterns for This Task:
-${knowledgeHubContext.relevantPatterns.slice(0, 5).map(pattern => `- ${pattern}`).join('\n')}
-
-## Current Development Context:
-- **File**: ${vscodeContext.activeFile}
-- **Git Branch**: ${vscodeContext.gitBranch}
-- **Workspace**: ${vscodeContext.workspaceRoot}
-- **Selected Text**: ${vscodeContext.selectedText ? `"${vscodeContext.selectedText}"` : 'None'}
-
-## AI Suggestions:
-${knowledgeHubContext.suggestions.slice(0, 3).map(suggestion => `- ${suggestion}`).join('\n')}
-
-## Original Request:
-${originalPrompt}
-
----
-Please provide a response that considers the full project context, learned patterns, and past decisions. Focus on consistency with existing codebase patterns and architectural decisions.
-`;
+        return rendered;
     }
 
-    private async getCurrentGitBranch(): Promise<string> {
-        try {
-            const gitExtension = vscode.extensions.getExtension('vscode.git');
-            if (gitExtension?.isActive) {
-                const git = gitExtension.exports.getAPI(1);
-                const repo = git.repositories[0];
-                return repo?.state?.HEAD?.name || 'main';
-            }
-        } catch (error) {
-            console.error('Failed to get Git branch:', error);
-        }
-        return 'main';
+    private getPromptBudget(request: AIRequest): PromptBudget {
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+        return {
+            contextWindow: request.contextWindow ?? PromptBuilder.resolveContextWindow(
+                request.model,
+                config.get('context.modelContextWindows', {}),
+                config.get('context.defaultContextWindow', 8192)
+            ),
+            compressionRatio: config.get('context.compressionRatio', 10)
+        };
     }
 
-    private getRecentChanges(): any[] {
-        // This would track recent document changes
-        // For now, return empty array
-        return [];
+    private logPromptReport(report: PromptBuildReport): void {
+        if (report.dropped.length > 0) {
+            this.outputChannel.appendLine(`✂️ ${PromptBuilder.formatReport(report)}`);
+        }
     }
 }
\ No newline at end of file
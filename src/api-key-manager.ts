@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+
+const API_KEY_SECRET = 'knowledgehub.apiKey';
+
+export class ApiKeyManager {
+    private secrets: vscode.SecretStorage;
+    private changeEmitter = new vscode.EventEmitter<string | undefined>();
+    private secretsListener: vscode.Disposable;
+
+    readonly onDidChangeApiKey = this.changeEmitter.event;
+
+    constructor(secrets: vscode.SecretStorage) {
+        this.secrets = secrets;
+
+        // SecretStorage is shared across windows, so a key rotated in one
+        // window is picked up by every other window without a reload
+        this.secretsListener = this.secrets.onDidChange(async event => {
+            if (event.key === API_KEY_SECRET) {
+                this.changeEmitter.fire(await this.getApiKey());
+            }
+        });
+    }
+
+    async getApiKey(): Promise<string | undefined> {
+        return this.secrets.get(API_KEY_SECRET);
+    }
+
+    async storeApiKey(apiKey: string): Promise<void> {
+        await this.secrets.store(API_KEY_SECRET, apiKey);
+    }
+
+    async clearApiKey(): Promise<void> {
+        await this.secrets.delete(API_KEY_SECRET);
+    }
+
+    async promptForApiKey(reason?: string): Promise<string | undefined> {
+        const apiKey = await vscode.window.showInputBox({
+            title: 'KnowledgeHub API Key',
+            prompt: reason || 'Enter the API key sent as X-API-Key to the KnowledgeHub server',
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim().length === 0 ? 'API key cannot be empty' : undefined
+        });
+
+        if (apiKey === undefined) {
+            return undefined;
+        }
+
+        await this.storeApiKey(apiKey.trim());
+        return apiKey.trim();
+    }
+
+    dispose(): void {
+        this.secretsListener.dispose();
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { KnowledgeHubClient, CodeChangeBatch } from './knowledgehub-client';
+import { createUnifiedDiff } from './line-diff';
+import { TrackingScope } from './tracking-scope';
+
+export interface ChangeBatcherConfig {
+    // A file's batch is sent once it has been idle this long
+    flushIntervalMs: number;
+    maxBatchBytes: number;
+}
+
+interface PendingBatch {
+    document: vscode.TextDocument;
+    baseVersion: number;
+    startedAt: number;
+    editCount: number;
+    idleTimer?: NodeJS.Timeout;
+}
+
+const CONTEXT_LINES = 1;
+// Continuous typing still flushes after this many idle intervals
+const MAX_BATCH_AGE_INTERVALS = 5;
+// Larger documents are tracked by edit count only; keeping a baseline copy would cost too much
+const MAX_SNAPSHOT_CHARS = 1_000_000;
+
+/**
+ * Coalesces edits per file into unified-diff batches. The text of each
+ * tracked document at the last flush is kept as the baseline, since change
+ * events only describe what was inserted, not what was removed. The
+ * tracking mode comes from the tracking scope; in "savesOnly" mode batches
+ * are only sent on save and unsaved edits are dropped on close.
+ */
+export class ChangeBatcher {
+    private knowledgeHub: KnowledgeHubClient;
+    private trackingScope: TrackingScope;
+    private config: ChangeBatcherConfig;
+    private snapshots: Map<string, string> = new Map();
+    private pending: Map<string, PendingBatch> = new Map();
+    private readonly epoch: string = randomUUID();
+    private sequence: number = 0;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(knowledgeHub: KnowledgeHubClient, trackingScope: TrackingScope) {
+        this.knowledgeHub = knowledgeHub;
+        this.trackingScope = trackingScope;
+        this.config = this.readConfig();
+    }
+
+    start(): void {
+        this.config = this.readConfig();
+        vscode.workspace.textDocuments.forEach(document => this.takeSnapshot(document));
+
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.takeSnapshot(document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (this.savesOnly) {
+                    this.discard(document.uri.toString());
+                } else {
+                    this.flush(document);
+                }
+                this.snapshots.delete(document.uri.toString());
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.memory')) {
+                    this.config = this.readConfig();
+                }
+            })
+        );
+    }
+
+    stop(): void {
+        if (this.savesOnly) {
+            this.discardAll();
+        } else {
+            this.flushAll();
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        // Edits made while stopped are not seen, so baselines would go stale
+        this.snapshots.clear();
+    }
+
+    recordChange(event: vscode.TextDocumentChangeEvent): void {
+        if (event.contentChanges.length === 0) {
+            return;
+        }
+
+        const key = event.document.uri.toString();
+        // Excluded files are never sent, so they are not buffered either; their
+        // baseline is dropped so edits made meanwhile never reach a later diff
+        if (this.knowledgeHub.isExcluded(event.document.fileName)) {
+            this.snapshots.delete(key);
+            return;
+        }
+        let batch = this.pending.get(key);
+        if (!batch) {
+            batch = {
+                document: event.document,
+                baseVersion: event.document.version - 1,
+                startedAt: Date.now(),
+                editCount: 0
+            };
+            this.pending.set(key, batch);
+        }
+
+        batch.editCount++;
+        if (this.savesOnly) {
+            return;
+        }
+        if (batch.idleTimer) {
+            clearTimeout(batch.idleTimer);
+        }
+
+        if (Date.now() - batch.startedAt >= this.config.flushIntervalMs * MAX_BATCH_AGE_INTERVALS) {
+            this.flush(event.document);
+        } else {
+            batch.idleTimer = setTimeout(() => this.flush(event.document), this.config.flushIntervalMs);
+        }
+    }
+
+    flush(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const batch = this.pending.get(key);
+        if (!batch) {
+            return;
+        }
+
+        this.pending.delete(key);
+        if (batch.idleTimer) {
+            clearTimeout(batch.idleTimer);
+        }
+
+        // The privacy settings may have changed since the batch started; a
+        // batch that is not sent must not use up a sequence number
+        if (this.knowledgeHub.isExcluded(document.fileName)) {
+            this.snapshots.delete(key);
+            return;
+        }
+
+        const baseline = this.snapshots.get(key);
+        const current = this.takeSnapshot(document);
+        const hunks = baseline !== undefined && current !== undefined
+            ? createUnifiedDiff(baseline, current, CONTEXT_LINES)
+            : [];
+
+        // Undo back to the baseline leaves nothing to report
+        if (baseline !== undefined && current !== undefined && hunks.length === 0) {
+            return;
+        }
+
+        const included: string[] = [];
+        let bytes = 0;
+        let linesAdded = 0;
+        let linesRemoved = 0;
+        for (const hunk of hunks) {
+            const hunkBytes = Buffer.byteLength(hunk.text) + 1;
+            if (bytes + hunkBytes > this.config.maxBatchBytes) {
+                continue;
+            }
+            included.push(hunk.text);
+            bytes += hunkBytes;
+            linesAdded += hunk.added;
+            linesRemoved += hunk.removed;
+        }
+
+        const payload: CodeChangeBatch = {
+            epoch: this.epoch,
+            sequence: ++this.sequence,
+            file: document.fileName,
+            language: document.languageId,
+            baseVersion: batch.baseVersion,
+            version: document.version,
+            startedAt: new Date(batch.startedAt).toISOString(),
+            endedAt: new Date().toISOString(),
+            editCount: batch.editCount,
+            diff: included.join('\n'),
+            linesAdded,
+            linesRemoved,
+            omittedHunks: hunks.length - included.length
+        };
+
+        // Track with KnowledgeHub (async, don't wait)
+        this.knowledgeHub.trackChangeBatch(payload).catch(error => {
+            console.error('Failed to track change batch:', error);
+        });
+    }
+
+    flushAll(): void {
+        Array.from(this.pending.values()).forEach(batch => this.flush(batch.document));
+    }
+
+    /**
+     * Re-reads the baseline of every document without a pending batch, so
+     * edits made while a document was out of scope never reach its next diff.
+     */
+    rebaseline(): void {
+        vscode.workspace.textDocuments
+            .filter(document => !this.pending.has(document.uri.toString()))
+            .forEach(document => this.takeSnapshot(document));
+    }
+
+    /** Drops pending batches without sending them. */
+    discardAll(): void {
+        Array.from(this.pending.keys()).forEach(key => this.discard(key));
+    }
+
+    dispose(): void {
+        this.stop();
+    }
+
+    private get savesOnly(): boolean {
+        return this.trackingScope.mode === 'savesOnly';
+    }
+
+    private discard(key: string): void {
+        const batch = this.pending.get(key);
+        if (batch?.idleTimer) {
+            clearTimeout(batch.idleTimer);
+        }
+        this.pending.delete(key);
+    }
+
+    private takeSnapshot(document: vscode.TextDocument): string | undefined {
+        const key = document.uri.toString();
+        if (document.uri.scheme !== 'file') {
+            return undefined;
+        }
+
+        const text = document.getText();
+        if (text.length > MAX_SNAPSHOT_CHARS) {
+            this.snapshots.delete(key);
+            return undefined;
+        }
+
+        this.snapshots.set(key, text);
+        return text;
+    }
+
+    private readConfig(): ChangeBatcherConfig {
+        const config = vscode.workspace.getConfiguration('knowledgehub.memory');
+        return {
+            flushIntervalMs: Math.max(250, config.get('flushIntervalMs', 2000)),
+            maxBatchBytes: Math.max(1024, config.get('maxBatchBytes', 16384))
+        };
+    }
+}
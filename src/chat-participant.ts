@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient, EnhancedContext, Memory } from './knowledgehub-client';
+import { MemoryDocumentProvider } from './memory-browser';
+import { resolveWorkspaceFolder } from './workspace-resolver';
+
+const PARTICIPANT_ID = 'knowledgehub.chat';
+
+interface ChatResultMetadata {
+    command?: string;
+    memoryCount: number;
+}
+
+export class KnowledgeHubChatParticipant {
+    private knowledgeHub: KnowledgeHubClient;
+
+    constructor(knowledgeHub: KnowledgeHubClient) {
+        this.knowledgeHub = knowledgeHub;
+    }
+
+    register(): vscode.Disposable {
+        const participant = vscode.chat.createChatParticipant(PARTICIPANT_ID, this.handleRequest.bind(this));
+        participant.iconPath = new vscode.ThemeIcon('book');
+        participant.followupProvider = {
+            provideFollowups: (result: vscode.ChatResult) => this.provideFollowups(result)
+        };
+        return participant;
+    }
+
+    private async handleRequest(
+        request: vscode.ChatRequest,
+        chatContext: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        try {
+            switch (request.command) {
+                case 'decisions':
+                    return await this.answerFromSection('decision', 'Relevant decisions', request, stream, token);
+                case 'patterns':
+                    return await this.answerFromSection('pattern', 'Known patterns', request, stream, token);
+                case 'recent':
+                    return await this.listRecent(stream);
+                default:
+                    return await this.answerQuestion(request, chatContext, stream, token);
+            }
+        } catch (error) {
+            stream.markdown(`KnowledgeHub could not answer: ${error}`);
+            return { errorDetails: { message: String(error) }, metadata: { command: request.command, memoryCount: 0 } };
+        }
+    }
+
+    private async answerQuestion(
+        request: vscode.ChatRequest,
+        chatContext: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        stream.progress('Searching project memory…');
+        const [context, memories] = await Promise.all([
+            this.getContext(request.prompt),
+            this.searchMemories(request.prompt)
+        ]);
+
+        if (token.isCancellationRequested) {
+            return { metadata: { memoryCount: 0 } };
+        }
+
+        memories.forEach(memory => stream.reference(MemoryDocumentProvider.uriFor(memory)));
+
+        const [model] = await vscode.lm.selectChatModels();
+        if (!model) {
+            // No language model available: show what KnowledgeHub knows directly
+            this.renderContext(stream, context, memories);
+            return { metadata: { memoryCount: memories.length } };
+        }
+
+        const messages = [
+            vscode.LanguageModelChatMessage.User(this.buildGroundingPrompt(context, memories)),
+            ...this.historyToMessages(chatContext),
+            vscode.LanguageModelChatMessage.User(request.prompt)
+        ];
+
+        const response = await model.sendRequest(messages, {}, token);
+        for await (const fragment of response.text) {
+            stream.markdown(fragment);
+        }
+
+        return { metadata: { memoryCount: memories.length } };
+    }
+
+    private async answerFromSection(
+        type: 'decision' | 'pattern',
+        heading: string,
+        request: vscode.ChatRequest,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        stream.progress(`Loading ${type}s…`);
+        const query = request.prompt || vscode.window.activeTextEditor?.document.fileName || 'project';
+        const [context, memories] = await Promise.all([
+            this.getContext(query),
+            this.searchMemories(request.prompt, [type])
+        ]);
+
+        if (token.isCancellationRequested) {
+            return { metadata: { command: request.command, memoryCount: 0 } };
+        }
+
+        const fromContext = type === 'decision' ? context?.relevantDecisions : context?.relevantPatterns;
+
+        stream.markdown(`### ${heading}\n\n`);
+        if ((!fromContext || fromContext.length === 0) && memories.length === 0) {
+            stream.markdown(`No ${type}s recorded for this ${request.prompt ? 'question' : 'project'} yet.`);
+            return { metadata: { command: request.command, memoryCount: 0 } };
+        }
+
+        (fromContext || []).forEach(entry => stream.markdown(`- ${entry}\n`));
+        this.renderMemories(stream, memories);
+
+        return { metadata: { command: request.command, memoryCount: memories.length } };
+    }
+
+    private async listRecent(stream: vscode.ChatResponseStream): Promise<vscode.ChatResult> {
+        stream.progress('Loading recent memories…');
+        const memories = await this.knowledgeHub.getRecentMemories(10);
+
+        stream.markdown('### Recent memories\n\n');
+        if (memories.length === 0) {
+            stream.markdown('No memories yet.');
+        }
+        this.renderMemories(stream, memories);
+
+        return { metadata: { command: 'recent', memoryCount: memories.length } };
+    }
+
+    private renderContext(stream: vscode.ChatResponseStream, context: EnhancedContext | undefined, memories: Memory[]): void {
+        if (context?.projectSummary) {
+            stream.markdown(`### Project\n\n${context.projectSummary}\n\n`);
+        }
+        if (context?.relevantDecisions.length) {
+            stream.markdown('### Decisions\n\n' + context.relevantDecisions.map(decision => `- ${decision}`).join('\n') + '\n\n');
+        }
+        if (context?.relevantPatterns.length) {
+            stream.markdown('### Patterns\n\n' + context.relevantPatterns.map(pattern => `- ${pattern}`).join('\n') + '\n\n');
+        }
+        if (memories.length > 0) {
+            stream.markdown('### Related memories\n\n');
+            this.renderMemories(stream, memories);
+        }
+        if (!context && memories.length === 0) {
+            stream.markdown('KnowledgeHub has nothing on this yet.');
+        }
+    }
+
+    private renderMemories(stream: vscode.ChatResponseStream, memories: Memory[]): void {
+        for (const memory of memories) {
+            stream.markdown(`- **${memory.title}** (${memory.type}) — ${memory.summary} `);
+            stream.anchor(MemoryDocumentProvider.uriFor(memory), 'open');
+            stream.markdown('\n');
+        }
+    }
+
+    private buildGroundingPrompt(context: EnhancedContext | undefined, memories: Memory[]): string {
+        const sections = [
+            'You are answering questions about a software project using its KnowledgeHub memory.',
+            'Only rely on the context below for project-specific facts; say so when it does not cover the question.',
+            ''
+        ];
+
+        if (context) {
+            sections.push(
+                `Project summary: ${context.projectSummary}`,
+                `Branch: ${context.currentBranch}`,
+                'Decisions:',
+                ...context.relevantDecisions.map(decision => `- ${decision}`),
+                'Patterns:',
+                ...context.relevantPatterns.map(pattern => `- ${pattern}`),
+                ''
+            );
+        }
+
+        if (memories.length > 0) {
+            sections.push('Memories:');
+            memories.forEach(memory => sections.push(`- [${memory.type}] ${memory.title}: ${memory.content || memory.summary}`));
+        }
+
+        return sections.join('\n');
+    }
+
+    private historyToMessages(chatContext: vscode.ChatContext): vscode.LanguageModelChatMessage[] {
+        const messages: vscode.LanguageModelChatMessage[] = [];
+        for (const turn of chatContext.history) {
+            if (turn instanceof vscode.ChatRequestTurn && turn.participant === PARTICIPANT_ID) {
+                messages.push(vscode.LanguageModelChatMessage.User(turn.prompt));
+            } else if (turn instanceof vscode.ChatResponseTurn && turn.participant === PARTICIPANT_ID) {
+                const text = turn.response
+                    .filter((part): part is vscode.ChatResponseMarkdownPart => part instanceof vscode.ChatResponseMarkdownPart)
+                    .map(part => part.value.value)
+                    .join('');
+                if (text) {
+                    messages.push(vscode.LanguageModelChatMessage.Assistant(text));
+                }
+            }
+        }
+        return messages;
+    }
+
+    private provideFollowups(result: vscode.ChatResult): vscode.ChatFollowup[] {
+        const metadata = result.metadata as ChatResultMetadata | undefined;
+        const followups: vscode.ChatFollowup[] = [];
+
+        if (metadata?.command !== 'decisions') {
+            followups.push({ prompt: '', command: 'decisions', label: 'Show related decisions' });
+        }
+        if (metadata?.command !== 'patterns') {
+            followups.push({ prompt: '', command: 'patterns', label: 'Show known patterns' });
+        }
+        if (metadata?.command !== 'recent') {
+            followups.push({ prompt: '', command: 'recent', label: 'Show recent memories' });
+        }
+
+        return followups;
+    }
+
+    private async getContext(query: string): Promise<EnhancedContext | undefined> {
+        try {
+            return await this.knowledgeHub.getEnhancedContext({
+                query,
+                currentFile: vscode.window.activeTextEditor?.document.fileName,
+                workspaceRoot: resolveWorkspaceFolder()?.uri.fsPath
+            });
+        } catch (error) {
+            console.error('Failed to get context for chat:', error);
+            return undefined;
+        }
+    }
+
+    private async searchMemories(text: string, types?: string[]): Promise<Memory[]> {
+        try {
+            const result = await this.knowledgeHub.searchMemories({ text: text || undefined, types, limit: 5 });
+            return result.memories;
+        } catch (error) {
+            console.error('Failed to search memories for chat:', error);
+            return [];
+        }
+    }
+}
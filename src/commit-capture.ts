@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient } from './knowledgehub-client';
+import { GitContextService, GitRepository, GitCommit, GitCommitFileStat } from './git-context';
+
+export type CommitCaptureMode = 'all' | 'decisionsOnly' | 'off';
+
+export interface CommitMessage {
+    subject: string;
+    // Paragraphs between the subject and the trailers
+    body: string;
+    decision?: string;
+    alternatives: string[];
+    confidence?: number;
+    reasoning?: string;
+}
+
+// Commits older than this are assumed to come from a pull, checkout or reset
+const RECENT_COMMIT_MS = 5 * 60 * 1000;
+// Larger commits still report totals, but list only this many files
+const MAX_COMMIT_FILES = 200;
+// A last paragraph counts as trailers only with one of these keys; otherwise
+// "Note: only touches docs" would be lost from the body
+const KNOWN_TRAILERS = new Set([
+    'decision', 'alternatives', 'alternative', 'confidence', 'reasoning',
+    'signed-off-by', 'co-authored-by', 'reviewed-by', 'acked-by', 'tested-by', 'reported-by',
+    'suggested-by', 'helped-by', 'cc', 'fixes', 'closes', 'refs', 'see-also', 'change-id'
+]);
+
+/**
+ * Records commits made in the workspace as decisions. A HEAD that moves to
+ * a fresh child of the previous HEAD is taken to be a new commit; its
+ * Decision:, Alternatives:, Confidence: and Reasoning: trailers fill the
+ * structured fields, and the subject stands in when there are none.
+ */
+export class CommitCapture {
+    private knowledgeHub: KnowledgeHubClient;
+    private gitContext: GitContextService;
+    private outputChannel: vscode.OutputChannel;
+    // Last seen HEAD commit per repository root
+    private heads: Map<string, string | undefined> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(knowledgeHub: KnowledgeHubClient, gitContext: GitContextService, outputChannel: vscode.OutputChannel) {
+        this.knowledgeHub = knowledgeHub;
+        this.gitContext = gitContext;
+        this.outputChannel = outputChannel;
+
+        this.disposables.push(gitContext.onDidChangeRepository(repository => this.onRepositoryChange(repository)));
+        // Also makes the git context start watching repositories
+        gitContext.getRepositories().forEach(repository => this.onRepositoryChange(repository));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.heads.clear();
+    }
+
+    private onRepositoryChange(repository: GitRepository): void {
+        const key = repository.rootUri.toString();
+        const head = repository.state.HEAD?.commit;
+
+        // The first state seen is only a baseline; the git extension reports
+        // HEAD once its initial status run completes. An unborn branch has a
+        // HEAD without a commit, so its first commit is still captured.
+        if (!this.heads.has(key)) {
+            if (repository.state.HEAD) {
+                this.heads.set(key, head);
+            }
+            return;
+        }
+
+        const previous = this.heads.get(key);
+        if (!head || head === previous) {
+            return;
+        }
+        this.heads.set(key, head);
+
+        if (this.getMode() === 'off') {
+            return;
+        }
+
+        this.capture(repository, head, previous).catch(error => {
+            this.outputChannel.appendLine(`Failed to record commit ${head.slice(0, 7)}: ${error}`);
+        });
+    }
+
+    private async capture(repository: GitRepository, hash: string, previous: string | undefined): Promise<void> {
+        const commit = await repository.getCommit(hash);
+        if (!this.isNewCommit(commit, previous)) {
+            return;
+        }
+
+        const message = parseCommitMessage(commit.message);
+        if (this.getMode() === 'decisionsOnly' && !message.decision) {
+            return;
+        }
+
+        let files: GitCommitFileStat[] = [];
+        try {
+            files = await this.gitContext.getCommitFileStats(repository, commit);
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to read changed files of commit ${hash.slice(0, 7)}: ${error}`);
+        }
+
+        const repositoryRoot = repository.rootUri.fsPath;
+        const status = await this.knowledgeHub.recordDecision({
+            description: message.decision ?? message.subject,
+            // With a Decision: trailer the subject says what changed, which is still worth keeping
+            reasoning: message.reasoning ?? (message.body || (message.decision ? message.subject : '')),
+            alternatives: message.alternatives,
+            confidence: message.confidence ?? 0.8,
+            commit: {
+                hash: commit.hash,
+                branch: this.gitContext.getHeadLabel(repositoryRoot),
+                repository: repositoryRoot,
+                files: files.slice(0, MAX_COMMIT_FILES),
+                insertions: files.reduce((sum, file) => sum + (file.added ?? 0), 0),
+                deletions: files.reduce((sum, file) => sum + (file.removed ?? 0), 0)
+            }
+        });
+
+        this.outputChannel.appendLine(
+            `📝 ${status === 'queued' ? 'Queued' : 'Recorded'} commit ${hash.slice(0, 7)} as a ${message.decision ? 'decision' : 'change'} (${files.length} files)`
+        );
+    }
+
+    // Checkouts, resets and rebases move HEAD elsewhere, amends replace the
+    // previous commit, and fast-forward pulls bring in commits made earlier
+    private isNewCommit(commit: GitCommit, previous: string | undefined): boolean {
+        const follows = previous === undefined ? commit.parents.length === 0 : commit.parents[0] === previous;
+        const date = commit.commitDate ?? commit.authorDate;
+        return follows && !!date && Date.now() - date.getTime() < RECENT_COMMIT_MS;
+    }
+
+    private getMode(): CommitCaptureMode {
+        return vscode.workspace.getConfiguration('knowledgehub.git').get<CommitCaptureMode>('captureCommits', 'all');
+    }
+}
+
+/**
+ * Splits a commit message into subject, body and the trailers used for
+ * decisions. Trailers are read from the last paragraph, and only when every
+ * line in it is a "Key: value" trailer or a continuation of one.
+ */
+export function parseCommitMessage(message: string): CommitMessage {
+    const paragraphs = message
+        .split('\n')
+        .filter(line => !line.startsWith('#'))
+        .join('\n')
+        .trim()
+        .split(/\n\s*\n/);
+
+    const subject = (paragraphs.shift() ?? '').replace(/\s*\n\s*/g, ' ');
+    const trailers: [string, string][] = [];
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && isTrailerBlock(last)) {
+        paragraphs.pop();
+        for (const line of last.split('\n')) {
+            const match = /^([A-Za-z][\w-]*)\s*:\s*(.*)$/.exec(line);
+            if (match) {
+                trailers.push([match[1].toLowerCase(), match[2].trim()]);
+            } else if (trailers.length > 0) {
+                trailers[trailers.length - 1][1] += ' ' + line.trim();
+            }
+        }
+    }
+
+    const values = (key: string) => trailers.filter(([name]) => name === key).map(([, value]) => value).filter(Boolean);
+    const confidence = values('confidence')[0];
+
+    return {
+        subject,
+        body: paragraphs.join('\n\n').trim(),
+        decision: values('decision')[0],
+        alternatives: [...values('alternatives'), ...values('alternative')]
+            .flatMap(value => value.split(/[;,]/))
+            .map(value => value.trim())
+            .filter(Boolean),
+        confidence: confidence ? parseConfidence(confidence) : undefined,
+        reasoning: values('reasoning').join('\n') || undefined
+    };
+}
+
+function isTrailerBlock(paragraph: string): boolean {
+    const lines = paragraph.split('\n');
+    const keys = lines.map(line => /^([A-Za-z][\w-]*)\s*:/.exec(line)?.[1].toLowerCase());
+    return keys[0] !== undefined
+        && lines.every((line, index) => keys[index] !== undefined || /^\s+\S/.test(line))
+        && keys.some(key => key !== undefined && KNOWN_TRAILERS.has(key));
+}
+
+/**
+ * Accepts 0.85, 85 and 85%; the server expects 0..1. Numbers above 1 are
+ * percentages when whole or at least 10, so an overshoot such as 1.5 is
+ * clamped to 1 rather than read as 1.5%.
+ */
+export function parseConfidence(value: string): number | undefined {
+    const match = /^(\d+(?:\.\d+)?)\s*(%?)$/.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+    const number = Number(match[1]);
+    const isPercentage = !!match[2] || (number > 1 && (Number.isInteger(number) || number >= 10));
+    return Math.max(0, Math.min(1, isPercentage ? number / 100 : number));
+}
@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { KnowledgeHubClient, CompletionRequest } from './knowledgehub-client';
+
+export interface CompletionBackend {
+    readonly name: string;
+    complete(request: CompletionRequest, signal: AbortSignal): Promise<string[]>;
+}
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string;
+    model: string;
+    timeoutMs: number;
+}
+
+const SYSTEM_PROMPT = 'You are a code completion engine. Reply with only the code to insert at the cursor (█). '
+    + 'Do not repeat code before or after the cursor, and do not add explanations or markdown fences.';
+
+export class KnowledgeHubCompletionBackend implements CompletionBackend {
+    readonly name = 'knowledgehub';
+    private knowledgeHub: KnowledgeHubClient;
+
+    constructor(knowledgeHub: KnowledgeHubClient) {
+        this.knowledgeHub = knowledgeHub;
+    }
+
+    complete(request: CompletionRequest, signal: AbortSignal): Promise<string[]> {
+        return this.knowledgeHub.getCompletions(request, signal);
+    }
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as
+ * Ollama, LM Studio or llama.cpp running locally.
+ */
+export class OpenAICompatibleCompletionBackend implements CompletionBackend {
+    readonly name = 'openai';
+    private knowledgeHub: KnowledgeHubClient;
+    private options: OpenAICompatibleOptions;
+
+    constructor(knowledgeHub: KnowledgeHubClient, options: OpenAICompatibleOptions) {
+        this.knowledgeHub = knowledgeHub;
+        this.options = options;
+    }
+
+    async complete(request: CompletionRequest, signal: AbortSignal): Promise<string[]> {
+        const url = `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+        try {
+            // Same secret scrubbing as requests to the KnowledgeHub server
+            const response = await axios.post(url, this.knowledgeHub.redact({
+                model: this.options.model,
+                messages: [
+                    { role: 'system', content: SYSTEM_PROMPT },
+                    { role: 'user', content: request.prompt }
+                ],
+                max_tokens: request.maxTokens,
+                temperature: 0.2,
+                stream: false
+            }, url), {
+                timeout: this.options.timeoutMs,
+                signal
+            });
+
+            return (response.data.choices || [])
+                .map((choice: any) => choice.message?.content ?? choice.text ?? '')
+                .filter((text: string) => text.length > 0);
+        } catch (error) {
+            throw new Error(`Failed to get completions from ${this.options.baseUrl}: ${error}`);
+        }
+    }
+}
+
+export function createCompletionBackend(knowledgeHub: KnowledgeHubClient): CompletionBackend {
+    const config = vscode.workspace.getConfiguration('knowledgehub.completion');
+
+    if (config.get<string>('backend', 'knowledgehub') === 'openai') {
+        return new OpenAICompatibleCompletionBackend(knowledgeHub, {
+            baseUrl: config.get('openai.baseUrl', 'http://localhost:11434/v1'),
+            model: config.get('openai.model', 'qwen2.5-coder:1.5b'),
+            timeoutMs: config.get('timeoutMs', 5000)
+        });
+    }
+
+    return new KnowledgeHubCompletionBackend(knowledgeHub);
+}
@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient } from './knowledgehub-client';
+
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected';
+
+export interface ConnectionMonitorOptions {
+    initialBackoffMs: number;
+    maxBackoffMs: number;
+    healthCheckIntervalMs: number;
+}
+
+const DEFAULT_OPTIONS: ConnectionMonitorOptions = {
+    initialBackoffMs: 5000,
+    maxBackoffMs: 5 * 60 * 1000,
+    healthCheckIntervalMs: 60 * 1000
+};
+
+export class ConnectionMonitor {
+    private knowledgeHub: KnowledgeHubClient;
+    private outputChannel: vscode.OutputChannel;
+    private options: ConnectionMonitorOptions;
+    private onConnected: () => Promise<void>;
+    private state: ConnectionState = 'disconnected';
+    private backoffMs: number;
+    private reconnectTimer?: NodeJS.Timeout;
+    private healthCheckTimer?: NodeJS.Timeout;
+    // The probe in flight, so a manual reconnect waits for its outcome
+    private connectAttempt?: Promise<boolean>;
+    private isStopped: boolean = true;
+    private stateEmitter = new vscode.EventEmitter<ConnectionState>();
+
+    readonly onDidChangeState = this.stateEmitter.event;
+
+    constructor(
+        knowledgeHub: KnowledgeHubClient,
+        outputChannel: vscode.OutputChannel,
+        onConnected: () => Promise<void>,
+        options: Partial<ConnectionMonitorOptions> = {}
+    ) {
+        this.knowledgeHub = knowledgeHub;
+        this.outputChannel = outputChannel;
+        this.onConnected = onConnected;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.backoffMs = this.options.initialBackoffMs;
+    }
+
+    get currentState(): ConnectionState {
+        return this.state;
+    }
+
+    get isConnected(): boolean {
+        return this.state === 'connected';
+    }
+
+    /**
+     * Starts connecting in the background. Never throws: failures move the
+     * monitor to 'disconnected' and schedule another attempt.
+     */
+    start(): void {
+        this.isStopped = false;
+        this.connect();
+    }
+
+    async reconnectNow(): Promise<boolean> {
+        this.isStopped = false;
+        this.clearTimers();
+        this.backoffMs = this.options.initialBackoffMs;
+        return this.connect();
+    }
+
+    stop(): void {
+        this.isStopped = true;
+        this.clearTimers();
+    }
+
+    dispose(): void {
+        this.stop();
+        this.stateEmitter.dispose();
+    }
+
+    private connect(): Promise<boolean> {
+        if (!this.connectAttempt) {
+            this.connectAttempt = this.attemptConnection().finally(() => {
+                this.connectAttempt = undefined;
+            });
+        }
+        return this.connectAttempt;
+    }
+
+    private async attemptConnection(): Promise<boolean> {
+        this.setState('connecting');
+        this.outputChannel.appendLine('🔗 Connecting to KnowledgeHub server...');
+
+        try {
+            const isConnected = await this.knowledgeHub.testConnection();
+            if (!isConnected) {
+                throw new Error('Server did not report healthy');
+            }
+
+            await this.onConnected();
+
+            this.backoffMs = this.options.initialBackoffMs;
+            this.setState('connected');
+            this.scheduleHealthCheck();
+            return true;
+        } catch (error) {
+            this.outputChannel.appendLine(`⚠️ KnowledgeHub unavailable: ${error}`);
+            this.setState('disconnected');
+            this.scheduleReconnect();
+            return false;
+        }
+    }
+
+    private scheduleReconnect(): void {
+        if (this.isStopped) {
+            return;
+        }
+
+        const delay = this.backoffMs;
+        this.backoffMs = Math.min(this.backoffMs * 2, this.options.maxBackoffMs);
+        this.outputChannel.appendLine(`🔄 Retrying connection in ${Math.round(delay / 1000)}s`);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.connect();
+        }, delay);
+    }
+
+    private scheduleHealthCheck(): void {
+        if (this.isStopped) {
+            return;
+        }
+
+        this.healthCheckTimer = setTimeout(async () => {
+            this.healthCheckTimer = undefined;
+            if (await this.knowledgeHub.testConnection()) {
+                this.scheduleHealthCheck();
+                return;
+            }
+
+            this.outputChannel.appendLine('⚠️ Lost connection to KnowledgeHub');
+            this.setState('disconnected');
+            this.scheduleReconnect();
+        }, this.options.healthCheckIntervalMs);
+    }
+
+    private clearTimers(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        if (this.healthCheckTimer) {
+            clearTimeout(this.healthCheckTimer);
+            this.healthCheckTimer = undefined;
+        }
+    }
+
+    private setState(state: ConnectionState): void {
+        if (this.state !== state) {
+            this.state = state;
+            this.stateEmitter.fire(state);
+        }
+    }
+}
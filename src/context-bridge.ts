@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { KnowledgeHubClient, EnhancedContext } from './knowledgehub-client';
+import { PromptTemplateRegistry, RenderedPrompt } from './prompt-templates';
 
 export interface AIProviderExtension {
     id: string;
@@ -9,26 +10,34 @@ export interface AIProviderExtension {
     apiVersion?: string;
 }
 
+// Agents without a context API to hook into; they reach KnowledgeHub through
+// the MCP server ("KnowledgeHub: Configure MCP Clients") instead
+const MCP_PROVIDERS = new Set(['continue.continue', 'anthropic.claude-dev']);
+
 export class ContextBridge {
     private knowledgeHub: KnowledgeHubClient;
     private bridgedProviders: Map<string, AIProviderExtension> = new Map();
+    private promptTemplates: PromptTemplateRegistry;
 
-    constructor(knowledgeHub: KnowledgeHubClient) {
+    constructor(knowledgeHub: KnowledgeHubClient, promptTemplates: PromptTemplateRegistry) {
         this.knowledgeHub = knowledgeHub;
+        this.promptTemplates = promptTemplates;
+    }
+
+    static connectsThroughMcp(providerName: string): boolean {
+        return MCP_PROVIDERS.has(providerName);
     }
 
     async bridgeContextToAI(providerName: string, extension: vscode.Extension<any>): Promise<boolean> {
+        if (ContextBridge.connectsThroughMcp(providerName)) {
+            return false;
+        }
+
         try {
             switch (providerName) {
                 case 'github.copilot':
                     return await this.bridgeToCopilot(extension);
                 
-                case 'continue.continue':
-                    return await this.bridgeToCline(extension);
-                
-                case 'anthropic.claude-dev':
-                    return await this.bridgeToClaudeDev(extension);
-                
                 default:
                     return await this.bridgeToGenericAI(providerName, extension);
             }
@@ -43,15 +52,7 @@ export class ContextBridge {
             // GitHub Copilot integration
             console.log('🔗 Bridging context to GitHub Copilot...');
             
-            // Register enhanced completion provider that wraps Copilot
-            const provider = vscode.languages.registerInlineCompletionItemProvider(
-                '*', // All file types
-                {
-                    provideInlineCompletionItems: async (document, position, context, token) => {
-                        return this.enhanceCopilotCompletions(document, position, context, token);
-                    }
-                }
-            );
+            // Completions with KnowledgeHub context come from KnowledgeHubInlineCompletionProvider
 
             this.bridgedProviders.set('github.copilot', {
                 id: 'github.copilot',
@@ -68,78 +69,6 @@ export class ContextBridge {
         }
     }
 
-    private async bridgeToCline(extension: vscode.Extension<any>): Promise<boolean> {
-        try {
-            // Continue/Cline integration
-            console.log('🔗 Bridging context to Cline...');
-            
-            // Hook into Continue's API if available
-            if (extension.exports && extension.exports.registerContextProvider) {
-                extension.exports.registerContextProvider({
-                    name: 'knowledgehub',
-                    getContext: async (query: string) => {
-                        const enhancedContext = await this.knowledgeHub.getEnhancedContext({
-                            query,
-                            currentFile: vscode.window.activeTextEditor?.document.fileName,
-                            workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-                        });
-                        
-                        return this.formatContextForCline(enhancedContext);
-                    }
-                });
-            }
-
-            this.bridgedProviders.set('continue.continue', {
-                id: 'continue.continue',
-                name: 'cline',
-                displayName: 'Cline',
-                extension,
-                apiVersion: '1.0'
-            });
-
-            return true;
-        } catch (error) {
-            console.error('Failed to bridge to Cline:', error);
-            return false;
-        }
-    }
-
-    private async bridgeToClaudeDev(extension: vscode.Extension<any>): Promise<boolean> {
-        try {
-            // Claude Dev integration
-            console.log('🔗 Bridging context to Claude Dev...');
-            
-            // Hook into Claude Dev's context system
-            if (extension.exports && extension.exports.addContextProvider) {
-                extension.exports.addContextProvider({
-                    name: 'KnowledgeHub AI Intelligence',
-                    getContext: async (request: any) => {
-                        const enhancedContext = await this.knowledgeHub.getEnhancedContext({
-                            query: request.prompt || request.query,
-                            currentFile: request.currentFile,
-                            workspaceRoot: request.workspaceRoot
-                        });
-                        
-                        return this.formatContextForClaudeDev(enhancedContext);
-                    }
-                });
-            }
-
-            this.bridgedProviders.set('anthropic.claude-dev', {
-                id: 'anthropic.claude-dev',
-                name: 'claude-dev',
-                displayName: 'Claude Dev',
-                extension,
-                apiVersion: '1.0'
-            });
-
-            return true;
-        } catch (error) {
-            console.error('Failed to bridge to Claude Dev:', error);
-            return false;
-        }
-    }
-
     private async bridgeToGenericAI(providerName: string, extension: vscode.Extension<any>): Promise<boolean> {
         try {
             console.log(`🔗 Bridging context to generic AI provider: ${providerName}...`);
@@ -162,104 +91,45 @@ export class ContextBridge {
         }
     }
 
-    private async enhanceCopilotCompletions(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        context: vscode.InlineCompletionContext,
-        token: vscode.CancellationToken
-    ): Promise<vscode.InlineCompletionItem[] | undefined> {
-        
-        try {
-            // Get context from current cursor position
-            const lineText = document.lineAt(position).text;
-            const textBeforeCursor = lineText.substring(0, position.character);
-            const textAfterCursor = lineText.substring(position.character);
-            
-            // Get enhanced context from KnowledgeHub
-            const enhancedContext = await this.knowledgeHub.getEnhancedContext({
-                query: textBeforeCursor,
-                currentFile: document.fileName,
-                workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-            });
-
-            // Create enhanced completion context
-            const enhancedPrompt = this.createEnhancedCompletionPrompt(
-                textBeforeCursor,
-                textAfterCursor,
-                enhancedContext,
-                document
-            );
-
-            // Note: In a real implementation, this would call the actual Copilot API
-            // with the enhanced context. For now, we return undefined to let the
-            // original Copilot handle the completion, but the context would be enhanced.
-            
-            return undefined;
-            
-        } catch (error) {
-            console.error('Failed to enhance Copilot completion:', error);
-            return undefined;
-        }
-    }
-
-    private createEnhancedCompletionPrompt(
+    createEnhancedCompletionPrompt(
         textBefore: string,
         textAfter: string,
         context: EnhancedContext,
-        document: vscode.TextDocument
+        document: vscode.TextDocument,
+        provider?: string
     ): string {
-        return `
-# Enhanced Completion Context
-
-## File: ${document.fileName}
-## Language: ${document.languageId}
-
-## Project Context:
-${context.projectSummary}
-
-## Relevant Patterns:
-${context.relevantPatterns.slice(0, 3).join('\n')}
-
-## Code Context:
-\`\`\`${document.languageId}
-${textBefore}█${textAfter}
-\`\`\`
-
-## Suggestions:
-${context.suggestions.slice(0, 2).join('\n')}
-
-Complete the code at the cursor position (█) considering the project context and patterns.
-`;
+        return this.renderCompletionPrompt(textBefore, textAfter, context, document, provider).text;
     }
 
-    private formatContextForCline(context: EnhancedContext): any {
-        return {
-            type: 'knowledgehub',
-            content: {
-                projectSummary: context.projectSummary,
-                patterns: context.relevantPatterns,
-                decisions: context.relevantDecisions,
-                suggestions: context.suggestions
-            },
-            metadata: {
-                source: 'KnowledgeHub AI Intelligence',
-                timestamp: new Date().toISOString()
-            }
-        };
-    }
-
-    private formatContextForClaudeDev(context: EnhancedContext): any {
-        return {
-            contextType: 'project-intelligence',
-            data: {
-                summary: context.projectSummary,
-                patterns: context.relevantPatterns,
-                decisions: context.relevantDecisions,
-                suggestions: context.suggestions,
-                branch: context.currentBranch
-            },
-            source: 'KnowledgeHub'
-        };
+    renderCompletionPrompt(
+        textBefore: string,
+        textAfter: string,
+        context: EnhancedContext,
+        document: vscode.TextDocument,
+        provider?: string
+    ): RenderedPrompt {
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+        const template = this.promptTemplates.resolve('completion', { provider, language: document.languageId });
+
+        return this.promptTemplates.render(template, {
+            prompt: '',
+            projectSummary: context.projectSummary,
+            decisions: context.relevantDecisions,
+            patterns: context.relevantPatterns,
+            suggestions: context.suggestions,
+            selectedText: '',
+            gitBranch: context.currentBranch,
+            activeFile: document.fileName,
+            workspaceRoot: vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath || '',
+            language: document.languageId,
+            provider: provider || '',
+            model: '',
+            codeBefore: textBefore,
+            codeAfter: textAfter
+        }, {
+            contextWindow: config.get('context.defaultContextWindow', 8192),
+            compressionRatio: config.get('context.compressionRatio', 10)
+        });
     }
 
     getBridgedProviders(): AIProviderExtension[] {
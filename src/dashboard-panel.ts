@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { KnowledgeHubClient, AISessionInfo, Memory, ProjectAnalysis } from './knowledgehub-client';
+import { resolveWorkspaceFolder } from './workspace-resolver';
+
+export interface DashboardStats {
+    connectionState: string;
+    pendingEvents: number;
+    activity: any;
+}
+
+export interface DashboardData {
+    session?: AISessionInfo;
+    memories: Memory[];
+    memoriesError?: string;
+    stats: DashboardStats;
+}
+
+// Messages the webview sends to the extension
+type WebviewMessage =
+    | { type: 'ready' }
+    | { type: 'refresh' }
+    | { type: 'analyzeProject' }
+    | { type: 'openMemory'; id: string }
+    | { type: 'openExternal' };
+
+// Messages the extension sends to the webview
+type ExtensionMessage =
+    | { type: 'data'; data: DashboardData }
+    | { type: 'analysis'; analysis: ProjectAnalysis }
+    | { type: 'error'; message: string }
+    | { type: 'loading'; section: 'data' | 'analysis' };
+
+export class DashboardPanel {
+    static readonly viewType = 'knowledgehub.dashboard';
+    private static current?: DashboardPanel;
+
+    private panel: vscode.WebviewPanel;
+    private knowledgeHub: KnowledgeHubClient;
+    private getStats: () => DashboardStats;
+    private onOpenMemory: (memory: Memory) => void;
+    private memories: Memory[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    static createOrShow(
+        knowledgeHub: KnowledgeHubClient,
+        getStats: () => DashboardStats,
+        onOpenMemory: (memory: Memory) => void
+    ): DashboardPanel {
+        if (DashboardPanel.current) {
+            DashboardPanel.current.panel.reveal();
+            DashboardPanel.current.refresh();
+            return DashboardPanel.current;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            DashboardPanel.viewType,
+            'KnowledgeHub Dashboard',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                // Nothing is loaded from disk; all content is inlined behind the CSP
+                localResourceRoots: [],
+                retainContextWhenHidden: false
+            }
+        );
+
+        DashboardPanel.current = new DashboardPanel(panel, knowledgeHub, getStats, onOpenMemory);
+        return DashboardPanel.current;
+    }
+
+    /**
+     * Pushes fresh data to the open dashboard, if any.
+     */
+    static refreshIfOpen(): void {
+        DashboardPanel.current?.refresh();
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        knowledgeHub: KnowledgeHubClient,
+        getStats: () => DashboardStats,
+        onOpenMemory: (memory: Memory) => void
+    ) {
+        this.panel = panel;
+        this.knowledgeHub = knowledgeHub;
+        this.getStats = getStats;
+        this.onOpenMemory = onOpenMemory;
+
+        this.panel.webview.html = this.getHtml();
+
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.panel.webview.onDidReceiveMessage((message: WebviewMessage) => this.handleMessage(message))
+        );
+    }
+
+    async refresh(): Promise<void> {
+        this.post({ type: 'loading', section: 'data' });
+
+        const data: DashboardData = {
+            session: this.knowledgeHub.getSessionInfo(),
+            memories: [],
+            stats: this.getStats()
+        };
+
+        try {
+            data.memories = await this.knowledgeHub.getRecentMemories(25);
+        } catch (error) {
+            data.memoriesError = String(error);
+        }
+
+        this.memories = data.memories;
+        this.post({ type: 'data', data });
+    }
+
+    dispose(): void {
+        DashboardPanel.current = undefined;
+        this.panel.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private async handleMessage(message: WebviewMessage): Promise<void> {
+        switch (message.type) {
+            case 'ready':
+            case 'refresh':
+                await this.refresh();
+                break;
+
+            case 'analyzeProject':
+                await this.runProjectAnalysis();
+                break;
+
+            case 'openMemory': {
+                const memory = this.memories.find(candidate => candidate.id === message.id);
+                if (memory) {
+                    this.onOpenMemory(memory);
+                }
+                break;
+            }
+
+            case 'openExternal': {
+                const dashboardUrl = await this.knowledgeHub.getDashboardUrl();
+                vscode.env.openExternal(vscode.Uri.parse(dashboardUrl));
+                break;
+            }
+        }
+    }
+
+    private async runProjectAnalysis(): Promise<void> {
+        const workspaceRoot = resolveWorkspaceFolder()?.uri.fsPath;
+        if (!workspaceRoot) {
+            this.post({ type: 'error', message: 'No workspace folder open' });
+            return;
+        }
+
+        this.post({ type: 'loading', section: 'analysis' });
+        try {
+            const analysis = await this.knowledgeHub.analyzeProject(workspaceRoot);
+            this.post({ type: 'analysis', analysis });
+        } catch (error) {
+            this.post({ type: 'error', message: String(error) });
+        }
+    }
+
+    private post(message: ExtensionMessage): void {
+        this.panel.webview.postMessage(message);
+    }
+
+    private getHtml(): string {
+        const nonce = randomBytes(16).toString('base64');
+        const csp = [
+            `default-src 'none'`,
+            `img-src ${this.panel.webview.cspSource} data:`,
+            `style-src 'nonce-${nonce}'`,
+            `script-src 'nonce-${nonce}'`
+        ].join('; ');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>KnowledgeHub Dashboard</title>
+<style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    header { display: flex; align-items: center; justify-content: space-between; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; margin-left: 4px; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    section { margin-top: 16px; }
+    .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 8px; }
+    .card { border: 1px solid var(--vscode-panel-border); padding: 8px; border-radius: 4px; }
+    .card .value { font-size: 1.4em; font-weight: 600; }
+    .card .label { opacity: 0.8; font-size: 0.9em; }
+    ol.timeline { list-style: none; padding: 0; }
+    ol.timeline li { border-left: 2px solid var(--vscode-textLink-foreground); padding: 4px 0 8px 12px; cursor: pointer; }
+    ol.timeline li:hover { background: var(--vscode-list-hoverBackground); }
+    .meta { opacity: 0.7; font-size: 0.85em; }
+    .error { color: var(--vscode-errorForeground); }
+    .muted { opacity: 0.7; }
+</style>
+</head>
+<body>
+<header>
+    <h2>KnowledgeHub AI Intelligence</h2>
+    <div>
+        <button id="refresh">Refresh</button>
+        <button id="external" class="secondary">Open in Browser</button>
+    </div>
+</header>
+<div id="status" class="muted"></div>
+<section>
+    <h3>Session</h3>
+    <div id="session" class="grid"></div>
+</section>
+<section>
+    <h3>Tracking</h3>
+    <div id="stats" class="grid"></div>
+</section>
+<section>
+    <h3>Project Analysis <button id="analyze" class="secondary">Analyze</button></h3>
+    <div id="analysis" class="muted">Run an analysis to see technologies, patterns and suggestions.</div>
+</section>
+<section>
+    <h3>Memory Timeline</h3>
+    <ol id="timeline" class="timeline"></ol>
+</section>
+<script nonce="${nonce}">
+(function () {
+    const vscode = acquireVsCodeApi();
+
+    function el(tag, text, className) {
+        const node = document.createElement(tag);
+        if (text !== undefined) { node.textContent = String(text); }
+        if (className) { node.className = className; }
+        return node;
+    }
+
+    function card(label, value) {
+        const node = el('div', undefined, 'card');
+        node.appendChild(el('div', value, 'value'));
+        node.appendChild(el('div', label, 'label'));
+        return node;
+    }
+
+    function list(title, items) {
+        const wrapper = el('div');
+        wrapper.appendChild(el('h4', title));
+        const ul = el('ul');
+        (items || []).forEach(item => ul.appendChild(el('li', item)));
+        if (!items || items.length === 0) { ul.appendChild(el('li', 'None', 'muted')); }
+        wrapper.appendChild(ul);
+        return wrapper;
+    }
+
+    function renderData(data) {
+        const session = document.getElementById('session');
+        session.replaceChildren();
+        if (data.session) {
+            session.appendChild(card('Memories', data.session.memories));
+            session.appendChild(card('Pending tasks', data.session.tasks));
+            session.appendChild(card('Predicted focus', data.session.predictedFocus));
+            session.appendChild(card('Estimated duration', data.session.estimatedDuration));
+        } else {
+            session.appendChild(el('div', 'No active session', 'muted'));
+        }
+
+        const stats = document.getElementById('stats');
+        stats.replaceChildren(
+            card('Connection', data.stats.connectionState),
+            card('Pending offline events', data.stats.pendingEvents),
+            card('Changes (last hour)', data.stats.activity.changesLastHour),
+            card('Saves (last hour)', data.stats.activity.savesLastHour),
+            card('Active files', data.stats.activity.activeFiles)
+        );
+
+        const timeline = document.getElementById('timeline');
+        timeline.replaceChildren();
+        if (data.memoriesError) {
+            timeline.appendChild(el('li', data.memoriesError, 'error'));
+        } else if (data.memories.length === 0) {
+            timeline.appendChild(el('li', 'No memories yet', 'muted'));
+        }
+        data.memories.forEach(memory => {
+            const item = el('li');
+            item.appendChild(el('strong', memory.title));
+            item.appendChild(el('div', memory.summary));
+            item.appendChild(el('div', memory.type + ' · ' + memory.timestamp, 'meta'));
+            item.addEventListener('click', () => vscode.postMessage({ type: 'openMemory', id: memory.id }));
+            timeline.appendChild(item);
+        });
+
+        document.getElementById('status').textContent = 'Updated ' + new Date().toLocaleTimeString();
+    }
+
+    function renderAnalysis(analysis) {
+        const container = document.getElementById('analysis');
+        container.className = '';
+        container.replaceChildren(
+            el('div', (analysis.projectType || 'Unknown project') + ' · complexity ' + (analysis.complexity || 'n/a')),
+            list('Technologies', analysis.technologies),
+            list('Patterns', analysis.patterns),
+            list('Suggestions', analysis.suggestions)
+        );
+    }
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        switch (message.type) {
+            case 'data': renderData(message.data); break;
+            case 'analysis': renderAnalysis(message.analysis); break;
+            case 'loading':
+                if (message.section === 'analysis') {
+                    document.getElementById('analysis').textContent = 'Analyzing…';
+                } else {
+                    document.getElementById('status').textContent = 'Loading…';
+                }
+                break;
+            case 'error': document.getElementById('status').replaceChildren(el('span', message.message, 'error')); break;
+        }
+    });
+
+    document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+    document.getElementById('external').addEventListener('click', () => vscode.postMessage({ type: 'openExternal' }));
+    document.getElementById('analyze').addEventListener('click', () => vscode.postMessage({ type: 'analyzeProject' }));
+
+    vscode.postMessage({ type: 'ready' });
+}());
+</script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,426 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { KnowledgeHubClient, DecisionAdr, DecisionStatus } from './knowledgehub-client';
+import { parseConfidence } from './commit-capture';
+import { pickWorkspaceFolders } from './workspace-resolver';
+
+export interface AdrFields {
+    number: number;
+    title: string;
+    date: string;
+    status: string;
+    context: string;
+    decision: string;
+    alternatives: string[];
+    confidence: number;
+}
+
+export interface ParsedAdr {
+    title: string;
+    number?: number;
+    status?: string;
+    context: string;
+    decision: string;
+    alternatives: string[];
+    confidence?: number;
+}
+
+// A template.md in the ADR directory replaces this one
+const DEFAULT_ADR_TEMPLATE = `# {{number}}. {{title}}
+
+Date: {{date}}
+
+## Status
+
+{{status}}
+
+## Context
+
+{{context}}
+
+## Decision
+
+{{decision}}
+
+## Alternatives Considered
+
+{{alternatives}}
+
+## Confidence
+
+{{confidence}}
+`;
+
+const TEMPLATE_FILES = ['template.md', 'adr-template.md'];
+// Content hashes of imported ADR files, by URI
+const IMPORTED_KEY = 'knowledgehub.adr.imported';
+
+/**
+ * Records decisions entered by hand and keeps ADR files in step with them:
+ * a recorded decision can be written out as the next numbered ADR, and
+ * existing ADRs can be imported in bulk. Imported files are remembered by
+ * content, so importing again only sends new and changed ADRs.
+ */
+export class DecisionRecorder {
+    private knowledgeHub: KnowledgeHubClient;
+    private outputChannel: vscode.OutputChannel;
+    private state: vscode.Memento;
+
+    constructor(knowledgeHub: KnowledgeHubClient, outputChannel: vscode.OutputChannel, state: vscode.Memento) {
+        this.knowledgeHub = knowledgeHub;
+        this.outputChannel = outputChannel;
+        this.state = state;
+    }
+
+    async recordDecision(): Promise<void> {
+        const description = await vscode.window.showInputBox({
+            title: 'Record Decision (1/5)',
+            prompt: 'What was decided?',
+            placeHolder: 'Use PostgreSQL for the job queue',
+            ignoreFocusOut: true,
+            validateInput: value => value.trim().length === 0 ? 'Description cannot be empty' : undefined
+        });
+        if (!description) {
+            return;
+        }
+
+        const alternatives = await vscode.window.showInputBox({
+            title: 'Record Decision (2/5)',
+            prompt: 'Alternatives considered (comma separated, optional)',
+            ignoreFocusOut: true
+        });
+        if (alternatives === undefined) {
+            return;
+        }
+
+        const reasoning = await vscode.window.showInputBox({
+            title: 'Record Decision (3/5)',
+            prompt: 'Why? The context and reasoning behind the decision',
+            ignoreFocusOut: true,
+            validateInput: value => value.trim().length === 0 ? 'Reasoning cannot be empty' : undefined
+        });
+        if (!reasoning) {
+            return;
+        }
+
+        const confidenceText = await vscode.window.showInputBox({
+            title: 'Record Decision (4/5)',
+            prompt: 'Confidence (0 to 1, or a percentage)',
+            value: '80%',
+            ignoreFocusOut: true,
+            validateInput: value => parseConfidence(value.trim()) === undefined ? 'Enter a number such as 0.8 or 80%' : undefined
+        });
+        if (confidenceText === undefined) {
+            return;
+        }
+
+        const directory = this.getAdrDirectory();
+        const target = await vscode.window.showQuickPick([
+            { label: '$(database) Record in KnowledgeHub', writeAdr: false },
+            { label: '$(new-file) Record and write ADR', description: directory, writeAdr: true }
+        ], { title: 'Record Decision (5/5)', ignoreFocusOut: true });
+        if (!target) {
+            return;
+        }
+
+        const decision = {
+            description: description.trim(),
+            reasoning: reasoning.trim(),
+            alternatives: splitAlternatives(alternatives),
+            confidence: parseConfidence(confidenceText.trim()) ?? 0.8
+        };
+
+        let adr: DecisionAdr | undefined;
+        let adrUri: vscode.Uri | undefined;
+        let adrHash: string | undefined;
+        if (target.writeAdr) {
+            const folder = (await pickWorkspaceFolders('Write ADR in', false))?.[0];
+            if (!folder) {
+                vscode.window.showWarningMessage('Open a workspace folder to write ADR files');
+                return;
+            }
+
+            try {
+                ({ adr, uri: adrUri, hash: adrHash } = await this.writeAdr(folder, decision));
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to write ADR: ${error}`);
+                return;
+            }
+        }
+
+        let status: DecisionStatus;
+        try {
+            status = await this.knowledgeHub.recordDecision({ ...decision, adr });
+        } catch (error) {
+            if (adrUri) {
+                await vscode.window.showTextDocument(adrUri);
+            }
+            vscode.window.showErrorMessage(adr
+                ? `Wrote ${adr.file}, but ${error}. Run "Import ADR Files" to retry.`
+                : `${error}`);
+            return;
+        }
+
+        const recorded = status === 'queued' ? 'Decision queued until KnowledgeHub is reachable' : 'Decision recorded';
+        if (adrUri) {
+            // Written from the decision just recorded, so a later import can skip it
+            await this.markImported(adrUri, adrHash!);
+            await vscode.window.showTextDocument(adrUri);
+            vscode.window.showInformationMessage(`${recorded} and written to ${adr!.file}`);
+        } else {
+            vscode.window.showInformationMessage(`${recorded}: ${decision.description}`);
+        }
+    }
+
+    async importAdrs(): Promise<void> {
+        const folders = await pickWorkspaceFolders('Import ADR files from', true);
+        if (!folders || folders.length === 0) {
+            if (folders) {
+                vscode.window.showWarningMessage('Open a workspace folder to import ADR files');
+            }
+            return;
+        }
+
+        const files: { folder: vscode.WorkspaceFolder; uri: vscode.Uri }[] = [];
+        for (const folder of folders) {
+            for (const uri of await this.findAdrFiles(folder)) {
+                files.push({ folder, uri });
+            }
+        }
+        if (files.length === 0) {
+            vscode.window.showInformationMessage(`No ADR files found (looked in ${this.getAdrDirectory()} and adr/, adrs/ and decisions/ folders)`);
+            return;
+        }
+
+        const imported = { ...this.state.get<Record<string, string>>(IMPORTED_KEY, {}) };
+        let recorded = 0;
+        let queued = 0;
+        let unchanged = 0;
+        let failed = 0;
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Importing ADR files',
+            cancellable: true
+        }, async (progress, token) => {
+            for (const { folder, uri } of files) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                progress.report({ message: vscode.workspace.asRelativePath(uri, false), increment: 100 / files.length });
+
+                try {
+                    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+                    const hash = hashContent(text);
+                    if (imported[uri.toString()] === hash) {
+                        unchanged++;
+                        continue;
+                    }
+
+                    const parsed = parseAdr(text, uri.path.split('/').pop() ?? '');
+                    if (!parsed) {
+                        this.outputChannel.appendLine(`Skipped ${uri.fsPath}: no title heading`);
+                        failed++;
+                        continue;
+                    }
+
+                    // Throws when the server rejects it, so the file is retried next time
+                    const status = await this.knowledgeHub.recordDecision({
+                        description: parsed.title,
+                        // Our own ADRs repeat the title as the decision
+                        reasoning: [parsed.context, parsed.decision !== parsed.title ? parsed.decision : '']
+                            .filter(Boolean)
+                            .join('\n\n'),
+                        alternatives: parsed.alternatives,
+                        confidence: parsed.confidence ?? 0.8,
+                        adr: {
+                            file: relativeTo(folder, uri),
+                            workspaceFolder: folder.uri.fsPath,
+                            number: parsed.number,
+                            status: parsed.status
+                        }
+                    });
+                    imported[uri.toString()] = hash;
+                    if (status === 'queued') {
+                        queued++;
+                    } else {
+                        recorded++;
+                    }
+                } catch (error) {
+                    this.outputChannel.appendLine(`Failed to import ADR ${uri.fsPath}: ${error}`);
+                    failed++;
+                }
+            }
+        });
+
+        await this.state.update(IMPORTED_KEY, imported);
+        this.outputChannel.appendLine(`📚 Imported ${recorded} ADRs (${queued} queued, ${unchanged} unchanged, ${failed} skipped)`);
+
+        const details = [
+            queued > 0 ? `${queued} queued until KnowledgeHub is reachable` : '',
+            unchanged > 0 ? `${unchanged} already up to date` : '',
+            failed > 0 ? `${failed} skipped, see output` : ''
+        ].filter(Boolean).join(', ');
+        vscode.window.showInformationMessage(`Imported ${recorded} ADR${recorded === 1 ? '' : 's'} into KnowledgeHub${details ? ` (${details})` : ''}`);
+    }
+
+    private async writeAdr(
+        folder: vscode.WorkspaceFolder,
+        decision: { description: string; reasoning: string; alternatives: string[]; confidence: number }
+    ): Promise<{ adr: DecisionAdr; uri: vscode.Uri; hash: string }> {
+        const directory = vscode.Uri.joinPath(folder.uri, this.getAdrDirectory());
+        let entries: [string, vscode.FileType][] = [];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(directory);
+        } catch {
+            // Created below
+        }
+
+        // Keep the zero padding already used in the directory
+        const numbered = entries
+            .map(([name]) => /^(\d+)[-_]/.exec(name)?.[1])
+            .filter((digits): digits is string => digits !== undefined);
+        const number = numbered.reduce((max, digits) => Math.max(max, Number(digits)), 0) + 1;
+        const width = numbered.length > 0 ? Math.max(...numbered.map(digits => digits.length)) : 4;
+        const paddedNumber = String(number).padStart(width, '0');
+
+        const templateName = TEMPLATE_FILES.find(name => entries.some(([entry]) => entry === name));
+        const template = templateName
+            ? Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(directory, templateName))).toString('utf8')
+            : DEFAULT_ADR_TEMPLATE;
+
+        const content = renderAdr(template, {
+            number,
+            title: decision.description,
+            date: new Date().toISOString().slice(0, 10),
+            status: 'Accepted',
+            context: decision.reasoning,
+            decision: decision.description,
+            alternatives: decision.alternatives,
+            confidence: decision.confidence
+        });
+
+        const uri = vscode.Uri.joinPath(directory, `${paddedNumber}-${slugify(decision.description)}.md`);
+        await vscode.workspace.fs.createDirectory(directory);
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+
+        return {
+            adr: { file: relativeTo(folder, uri), workspaceFolder: folder.uri.fsPath, number, status: 'Accepted' },
+            uri,
+            hash: hashContent(content)
+        };
+    }
+
+    private async markImported(uri: vscode.Uri, hash: string): Promise<void> {
+        await this.state.update(IMPORTED_KEY, {
+            ...this.state.get<Record<string, string>>(IMPORTED_KEY, {}),
+            [uri.toString()]: hash
+        });
+    }
+
+    private async findAdrFiles(folder: vscode.WorkspaceFolder): Promise<vscode.Uri[]> {
+        const directory = this.getAdrDirectory();
+        const pattern = new vscode.RelativePattern(folder, `{${directory}/*.md,**/adr/*.md,**/adrs/*.md,**/decisions/*.md}`);
+        const uris = await vscode.workspace.findFiles(pattern, '**/node_modules/**');
+
+        return uris
+            .filter(uri => {
+                const name = (uri.path.split('/').pop() ?? '').toLowerCase();
+                return !TEMPLATE_FILES.includes(name) && name !== 'readme.md' && name !== 'index.md';
+            })
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    private getAdrDirectory(): string {
+        const directory = vscode.workspace.getConfiguration('knowledgehub.adr').get('directory', 'docs/adr');
+        return directory.replace(/^[\\/]+|[\\/]+$/g, '') || 'docs/adr';
+    }
+}
+
+/** Fills {{number}}, {{title}}, {{date}}, {{status}}, {{context}}, {{decision}}, {{alternatives}} and {{confidence}}. */
+export function renderAdr(template: string, fields: AdrFields): string {
+    const values: Record<string, string> = {
+        number: String(fields.number),
+        title: fields.title,
+        date: fields.date,
+        status: fields.status,
+        context: fields.context,
+        decision: fields.decision,
+        alternatives: fields.alternatives.length > 0
+            ? fields.alternatives.map(alternative => `- ${alternative}`).join('\n')
+            : 'None recorded.',
+        confidence: `${Math.round(fields.confidence * 100)}%`
+    };
+
+    return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Reads the title, status, context, decision and alternatives from an ADR
+ * in the Nygard or MADR layout. Returns undefined when there is no title.
+ */
+export function parseAdr(text: string, fileName: string): ParsedAdr | undefined {
+    let body = text.replace(/\r\n/g, '\n');
+    let frontMatterStatus: string | undefined;
+
+    // MADR keeps status in YAML front matter
+    const frontMatter = /^---\n([\s\S]*?)\n---\n/.exec(body);
+    if (frontMatter) {
+        frontMatterStatus = /^status:\s*(.+)$/m.exec(frontMatter[1])?.[1].trim().replace(/^["']|["']$/g, '');
+        body = body.slice(frontMatter[0].length);
+    }
+
+    const heading = /^#\s+(.+)$/m.exec(body);
+    if (!heading) {
+        return undefined;
+    }
+    const title = heading[1].replace(/^(?:ADR[-\s]?\d+|\d+)\s*[.:)-]\s*/i, '').trim();
+
+    const sections = new Map<string, string>();
+    for (const section of body.split(/^##\s+/m).slice(1)) {
+        const newline = section.indexOf('\n');
+        const name = (newline === -1 ? section : section.slice(0, newline)).trim().toLowerCase();
+        sections.set(name, newline === -1 ? '' : section.slice(newline + 1).trim());
+    }
+    const find = (test: (name: string) => boolean) => Array.from(sections.entries()).find(([name]) => test(name))?.[1] ?? '';
+
+    const statusSection = find(name => name === 'status').split('\n')[0].trim();
+    const statusLine = /^status:\s*(.+)$/im.exec(body)?.[1].trim();
+    const alternatives = find(name => name.includes('option') || name.includes('alternative'))
+        .split('\n')
+        .map(line => /^\s*(?:[-*+]|\d+\.)\s+(.+)$/.exec(line)?.[1].replace(/\*\*/g, '').trim())
+        .filter((line): line is string => !!line && !/^none/i.test(line));
+    const confidence = find(name => name === 'confidence').split('\n')[0].trim();
+
+    return {
+        title: title || heading[1].trim(),
+        number: Number(/^(\d+)[-_]/.exec(fileName)?.[1]) || undefined,
+        status: statusSection || statusLine || frontMatterStatus || undefined,
+        context: find(name => name.startsWith('context')),
+        // Not MADR's "Decision Drivers"
+        decision: find(name => name === 'decision' || name === 'decision outcome'),
+        alternatives,
+        confidence: confidence ? parseConfidence(confidence) : undefined
+    };
+}
+
+function splitAlternatives(value: string): string[] {
+    return value.split(/[;,]/).map(alternative => alternative.trim()).filter(alternative => alternative.length > 0);
+}
+
+function slugify(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 50)
+        .replace(/-+$/, '') || 'decision';
+}
+
+function hashContent(text: string): string {
+    return createHash('sha1').update(text).digest('hex');
+}
+
+function relativeTo(folder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+    return uri.path.slice(folder.uri.path.length).replace(/^\//, '');
+}
@@ -0,0 +1,368 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { KnowledgeHubClient } from './knowledgehub-client';
+import { TrackingScope } from './tracking-scope';
+import { createUnifiedDiff } from './line-diff';
+
+export interface ErrorCaptureConfig {
+    diagnostics: boolean;
+    tasks: boolean;
+    terminal: boolean;
+    // Lines of code sent above and below a diagnostic
+    contextLines: number;
+}
+
+interface TrackedDiagnostic {
+    fingerprint: string;
+    message: string;
+    context: any;
+    // 0-based line of the diagnostic in the snapshot
+    line: number;
+    // Document text when the error was reported, to diff the fix against;
+    // shared by the diagnostics reported in the same pass
+    snapshot?: string;
+}
+
+// Diagnostics come and go while typing; only errors that stay this long are reported
+const SETTLE_MS = 5000;
+// The same error is sent at most once in this window
+const DEDUPE_WINDOW_MS = 30 * 60 * 1000;
+const MAX_FINGERPRINTS = 500;
+// A file full of errors (a broken import, say) should not flood the server
+const MAX_REPORTS_PER_FILE = 5;
+const MAX_TRACKED_PER_FILE = 20;
+const MAX_SNAPSHOT_CHARS = 1_000_000;
+const MAX_SOLUTION_BYTES = 4096;
+const MAX_OUTPUT_CHARS = 4000;
+const SOLUTION_CONTEXT_LINES = 2;
+// Ctrl+C in a terminal is not a failure worth learning from
+const INTERRUPTED_EXIT_CODES = [130];
+
+/**
+ * Sends errors to KnowledgeHub as they happen: error diagnostics that
+ * settle, tasks that exit non-zero and failed terminal commands (via shell
+ * integration). When a reported diagnostic goes away, the edit made to its
+ * file since the report is sent as the solution.
+ */
+export class ErrorCapture {
+    private knowledgeHub: KnowledgeHubClient;
+    private trackingScope: TrackingScope;
+    private outputChannel: vscode.OutputChannel;
+    private config: ErrorCaptureConfig;
+    // Reported diagnostics still present, by document URI then diagnostic key
+    private tracked: Map<string, Map<string, TrackedDiagnostic>> = new Map();
+    private settleTimers: Map<string, NodeJS.Timeout> = new Map();
+    // Fingerprint to the time it was last sent
+    private reported: Map<string, number> = new Map();
+    // Tail of each running terminal command's output
+    private terminalOutput: Map<vscode.TerminalShellExecution, string> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(knowledgeHub: KnowledgeHubClient, trackingScope: TrackingScope, outputChannel: vscode.OutputChannel) {
+        this.knowledgeHub = knowledgeHub;
+        this.trackingScope = trackingScope;
+        this.outputChannel = outputChannel;
+        this.config = this.readConfig();
+
+        this.disposables.push(
+            vscode.languages.onDidChangeDiagnostics(event => this.onDiagnosticsChange(event)),
+            vscode.tasks.onDidEndTaskProcess(event => this.onTaskEnd(event)),
+            vscode.window.onDidStartTerminalShellExecution(event => this.onTerminalCommandStart(event)),
+            vscode.window.onDidEndTerminalShellExecution(event => this.onTerminalCommandEnd(event)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.errors')) {
+                    this.config = this.readConfig();
+                }
+            })
+        );
+    }
+
+    dispose(): void {
+        this.settleTimers.forEach(timer => clearTimeout(timer));
+        this.settleTimers.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.tracked.clear();
+        this.terminalOutput.clear();
+    }
+
+    private onDiagnosticsChange(event: vscode.DiagnosticChangeEvent): void {
+        if (!this.config.diagnostics) {
+            return;
+        }
+
+        for (const uri of event.uris) {
+            if (uri.scheme !== 'file') {
+                continue;
+            }
+
+            const key = uri.toString();
+            const timer = this.settleTimers.get(key);
+            if (timer) {
+                clearTimeout(timer);
+            }
+            this.settleTimers.set(key, setTimeout(() => {
+                this.settleTimers.delete(key);
+                this.evaluateDiagnostics(uri);
+            }, SETTLE_MS));
+        }
+    }
+
+    private evaluateDiagnostics(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key);
+        const errors = new Map<string, vscode.Diagnostic>();
+        for (const diagnostic of vscode.languages.getDiagnostics(uri)) {
+            if (diagnostic.severity === vscode.DiagnosticSeverity.Error) {
+                errors.set(diagnosticKey(diagnostic), diagnostic);
+            }
+        }
+
+        const tracked = this.tracked.get(key) ?? new Map<string, TrackedDiagnostic>();
+        for (const [diagnosticId, entry] of tracked) {
+            if (!errors.has(diagnosticId)) {
+                tracked.delete(diagnosticId);
+                // Closing a file also clears its diagnostics; that fixes nothing
+                if (document) {
+                    this.captureSolution(entry, document);
+                }
+            }
+        }
+
+        const inScope = document ? this.trackingScope.shouldTrack(document) : this.trackingScope.isTracking;
+        // Diagnostics added in this pass share one copy of the document text
+        let snapshot: { text?: string } | undefined;
+        const getSnapshot = () => {
+            if (!snapshot) {
+                const text = document?.getText();
+                snapshot = { text: text !== undefined && text.length <= MAX_SNAPSHOT_CHARS ? text : undefined };
+            }
+            return snapshot.text;
+        };
+        let reports = 0;
+        for (const [diagnosticId, diagnostic] of errors) {
+            if (!inScope || tracked.has(diagnosticId) || tracked.size >= MAX_TRACKED_PER_FILE) {
+                continue;
+            }
+
+            const entry = this.describeDiagnostic(uri, diagnostic, document, getSnapshot());
+            tracked.set(diagnosticId, entry);
+            // Errors sent recently are still watched so their fix is captured
+            if (reports < MAX_REPORTS_PER_FILE && this.shouldReport(entry.fingerprint)) {
+                reports++;
+                this.send({ message: entry.message, context: entry.context }, `${entry.context.source ?? 'diagnostic'} error in ${vscode.workspace.asRelativePath(uri, false)}`);
+            }
+        }
+
+        if (tracked.size > 0) {
+            this.tracked.set(key, tracked);
+        } else {
+            this.tracked.delete(key);
+        }
+    }
+
+    private describeDiagnostic(uri: vscode.Uri, diagnostic: vscode.Diagnostic, document?: vscode.TextDocument, snapshot?: string): TrackedDiagnostic {
+        const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+        const context: any = {
+            kind: 'diagnostic',
+            file: uri.fsPath,
+            language: document?.languageId,
+            line: diagnostic.range.start.line + 1,
+            column: diagnostic.range.start.character + 1,
+            source: diagnostic.source,
+            diagnosticCode: code,
+            fingerprint: fingerprint('diagnostic', uri.fsPath, diagnosticKey(diagnostic))
+        };
+
+        if (document) {
+            const startLine = Math.max(0, diagnostic.range.start.line - this.config.contextLines);
+            const endLine = Math.min(document.lineCount - 1, diagnostic.range.end.line + this.config.contextLines);
+            context.code = document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length));
+            context.codeStartLine = startLine + 1;
+        }
+
+        return {
+            fingerprint: context.fingerprint,
+            message: diagnostic.source ? `${diagnostic.source}: ${diagnostic.message}` : diagnostic.message,
+            context,
+            line: diagnostic.range.start.line,
+            snapshot
+        };
+    }
+
+    private captureSolution(entry: TrackedDiagnostic, document: vscode.TextDocument): void {
+        if (entry.snapshot === undefined) {
+            return;
+        }
+
+        // Nothing changed in this file: it was fixed elsewhere, or the checker changed its mind
+        const hunks = createUnifiedDiff(entry.snapshot, document.getText(), SOLUTION_CONTEXT_LINES)
+            .map(hunk => ({ ...hunk, start: Number(/^@@ -(\d+)/.exec(hunk.text)?.[1] ?? 0) }));
+        if (hunks.length === 0) {
+            return;
+        }
+
+        // Hunks closest to the error first, then back in file order
+        let bytes = 0;
+        const included = [...hunks]
+            .sort((a, b) => Math.abs(a.start - 1 - entry.line) - Math.abs(b.start - 1 - entry.line))
+            .filter(hunk => {
+                const size = Buffer.byteLength(hunk.text) + 1;
+                if (bytes + size > MAX_SOLUTION_BYTES) {
+                    return false;
+                }
+                bytes += size;
+                return true;
+            })
+            .sort((a, b) => a.start - b.start);
+        if (included.length === 0) {
+            return;
+        }
+
+        this.send({
+            message: entry.message,
+            context: { ...entry.context, resolved: true, omittedHunks: hunks.length - included.length },
+            solution: included.map(hunk => hunk.text).join('\n')
+        }, `fix for ${entry.message.slice(0, 80)}`);
+    }
+
+    private onTaskEnd(event: vscode.TaskProcessEndEvent): void {
+        const task = event.execution.task;
+        if (!this.config.tasks || !this.trackingScope.isTracking || !event.exitCode || INTERRUPTED_EXIT_CODES.includes(event.exitCode)) {
+            return;
+        }
+
+        const folder = typeof task.scope === 'object' ? task.scope : undefined;
+        const context = {
+            kind: 'task',
+            task: task.name,
+            taskSource: task.source,
+            taskType: task.definition.type,
+            command: describeTaskCommand(task),
+            exitCode: event.exitCode,
+            workspaceFolder: folder?.uri.fsPath,
+            fingerprint: fingerprint('task', task.source, task.name, String(event.exitCode))
+        };
+        if (!this.shouldReport(context.fingerprint)) {
+            return;
+        }
+
+        // Task output is not readable through the API; problem matcher
+        // results arrive as diagnostics and are captured there
+        this.send({ message: `Task "${task.name}" failed with exit code ${event.exitCode}`, context }, `failed task ${task.name}`);
+    }
+
+    private onTerminalCommandStart(event: vscode.TerminalShellExecutionStartEvent): void {
+        if (!this.config.terminal || !this.trackingScope.isTracking) {
+            return;
+        }
+
+        // Output is only readable from the start, so every command is read
+        // and the tail kept in case it fails
+        const execution = event.execution;
+        this.terminalOutput.set(execution, '');
+        (async () => {
+            for await (const data of execution.read()) {
+                // Dropped once the command ended
+                if (!this.terminalOutput.has(execution)) {
+                    return;
+                }
+                const output = this.terminalOutput.get(execution) + data;
+                this.terminalOutput.set(execution, output.length > MAX_OUTPUT_CHARS * 2 ? output.slice(-MAX_OUTPUT_CHARS) : output);
+            }
+        })().catch(error => this.outputChannel.appendLine(`Failed to read terminal output: ${error}`));
+    }
+
+    private onTerminalCommandEnd(event: vscode.TerminalShellExecutionEndEvent): void {
+        const output = this.terminalOutput.get(event.execution);
+        this.terminalOutput.delete(event.execution);
+        if (output === undefined || !event.exitCode || INTERRUPTED_EXIT_CODES.includes(event.exitCode)) {
+            return;
+        }
+
+        const commandLine = event.execution.commandLine.value.trim();
+        if (!commandLine) {
+            return;
+        }
+
+        const context = {
+            kind: 'terminal',
+            command: commandLine,
+            exitCode: event.exitCode,
+            cwd: event.execution.cwd?.fsPath,
+            terminal: event.terminal.name,
+            fingerprint: fingerprint('terminal', commandLine, String(event.exitCode))
+        };
+        if (!this.shouldReport(context.fingerprint)) {
+            return;
+        }
+
+        this.send({
+            message: `Command "${commandLine}" failed with exit code ${event.exitCode}`,
+            stack: stripAnsi(output).slice(-MAX_OUTPUT_CHARS).trim() || undefined,
+            context
+        }, `failed command ${commandLine.slice(0, 80)}`);
+    }
+
+    private shouldReport(fingerprint: string): boolean {
+        const now = Date.now();
+        const last = this.reported.get(fingerprint);
+        if (last !== undefined && now - last < DEDUPE_WINDOW_MS) {
+            return false;
+        }
+
+        this.reported.delete(fingerprint);
+        this.reported.set(fingerprint, now);
+        // Maps keep insertion order, so the first entries are the oldest
+        while (this.reported.size > MAX_FINGERPRINTS) {
+            this.reported.delete(this.reported.keys().next().value!);
+        }
+        return true;
+    }
+
+    private send(error: { message: string; stack?: string; context: any; solution?: string }, label: string): void {
+        this.outputChannel.appendLine(error.solution ? `💡 Captured ${label}` : `🐞 Captured ${label}`);
+
+        // Track with KnowledgeHub (async, don't wait)
+        this.knowledgeHub.learnFromError(error).catch(sendError => {
+            this.outputChannel.appendLine(`Failed to record error: ${sendError}`);
+        });
+    }
+
+    private readConfig(): ErrorCaptureConfig {
+        const config = vscode.workspace.getConfiguration('knowledgehub.errors');
+        return {
+            diagnostics: config.get('captureDiagnostics', true),
+            tasks: config.get('captureTasks', true),
+            terminal: config.get('captureTerminalCommands', true),
+            contextLines: Math.max(0, config.get('contextLines', 5))
+        };
+    }
+}
+
+// Ranges move as code is edited, so a diagnostic is identified by what it says
+function diagnosticKey(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return `${diagnostic.source ?? ''}|${code ?? ''}|${diagnostic.message}`;
+}
+
+function fingerprint(...parts: (string | undefined)[]): string {
+    return createHash('sha1').update(parts.map(part => part ?? '').join('\0')).digest('hex');
+}
+
+function describeTaskCommand(task: vscode.Task): string | undefined {
+    const execution = task.execution;
+    const toText = (value: string | vscode.ShellQuotedString) => typeof value === 'string' ? value : value.value;
+
+    if (execution instanceof vscode.ShellExecution) {
+        return execution.commandLine ?? [execution.command, ...(execution.args ?? [])].filter(part => part !== undefined).map(toText).join(' ');
+    }
+    if (execution instanceof vscode.ProcessExecution) {
+        return [execution.process, ...execution.args].join(' ');
+    }
+    return undefined;
+}
+
+function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g, '');
+}
@@ -1,17 +1,53 @@
 import * as vscode from 'vscode';
-import { KnowledgeHubClient } from './knowledgehub-client';
+import { KnowledgeHubClient, Memory } from './knowledgehub-client';
 import { AIEnhancementLayer } from './ai-enhancement-layer';
 import { ContextBridge } from './context-bridge';
 import { LiveContextStream } from './live-context';
 import { AIProviderDetector } from './ai-provider-detector';
+import { ApiKeyManager } from './api-key-manager';
+import { OfflineEventQueue } from './offline-queue';
+import { ConnectionMonitor } from './connection-monitor';
+import { LiveChannel } from './live-channel';
+import { KnowledgeHubTreeProvider, KnowledgeHubTreeItem } from './knowledgehub-tree';
+import { DashboardPanel } from './dashboard-panel';
+import { KnowledgeHubStatusBar } from './status-bar';
+import { MemoryBrowser, MemoryDocumentProvider, MEMORY_SCHEME } from './memory-browser';
+import { MemoryCapture } from './memory-capture';
+import { KnowledgeHubChatParticipant } from './chat-participant';
+import { KnowledgeHubLanguageModelTools } from './language-model-tools';
+import { KnowledgeHubMcpServer } from './mcp-server';
+import { McpClientConfigWriter } from './mcp-client-config';
+import { KnowledgeHubPublicApi } from './public-api';
+import { KnowledgeHubInlineCompletionProvider } from './inline-completion-provider';
+import { PromptTemplateRegistry, PromptTemplateKind, PROMPT_TEMPLATE_KINDS, RenderedPrompt } from './prompt-templates';
+import { PromptBuilder } from './prompt-builder';
+import { KnowledgeHubExtensionExports } from './knowledgehub-api';
+import { PayloadRedactor } from './payload-redactor';
+import { TrackingScope } from './tracking-scope';
+import { resolveWorkspaceFolder, pickWorkspaceFolders } from './workspace-resolver';
+import { GitContextService } from './git-context';
+import { CommitCapture } from './commit-capture';
+import { DecisionRecorder } from './decision-recorder';
+import { ErrorCapture } from './error-capture';
 
 export class KnowledgeHubExtension {
     private knowledgeHubClient: KnowledgeHubClient;
     private aiEnhancementLayer: AIEnhancementLayer;
     private contextBridge: ContextBridge;
     private liveContextStream: LiveContextStream;
+    private trackingScope: TrackingScope;
+    private gitContext: GitContextService;
     private aiProviderDetector: AIProviderDetector;
+    private connectionMonitor: ConnectionMonitor;
     private outputChannel: vscode.OutputChannel;
+    private apiKeyManager?: ApiKeyManager;
+    private offlineQueue?: OfflineEventQueue;
+    private liveChannel?: LiveChannel;
+    private treeProvider: KnowledgeHubTreeProvider;
+    private memoryCapture: MemoryCapture;
+    private decisionRecorder?: DecisionRecorder;
+    private promptTemplates: PromptTemplateRegistry;
+    private isPromptingForApiKey: boolean = false;
 
     constructor() {
         this.outputChannel = vscode.window.createOutputChannel('KnowledgeHub AI');
@@ -22,66 +58,363 @@ export class KnowledgeHubExtension {
         
         // Initialize components
         this.knowledgeHubClient = new KnowledgeHubClient(serverUrl, this.outputChannel);
-        this.aiEnhancementLayer = new AIEnhancementLayer(this.knowledgeHubClient);
-        this.contextBridge = new ContextBridge(this.knowledgeHubClient);
-        this.liveContextStream = new LiveContextStream(this.knowledgeHubClient);
+        this.promptTemplates = new PromptTemplateRegistry(this.outputChannel);
+        this.gitContext = new GitContextService(this.outputChannel);
+        this.knowledgeHubClient.setGitContext(this.gitContext);
+        this.aiEnhancementLayer = new AIEnhancementLayer(this.knowledgeHubClient, this.promptTemplates, this.gitContext, this.outputChannel);
+        this.contextBridge = new ContextBridge(this.knowledgeHubClient, this.promptTemplates);
+        this.trackingScope = new TrackingScope();
+        this.liveContextStream = new LiveContextStream(this.knowledgeHubClient, this.trackingScope);
         this.aiProviderDetector = new AIProviderDetector();
+        this.memoryCapture = new MemoryCapture(this.knowledgeHubClient, this.gitContext);
+        this.treeProvider = new KnowledgeHubTreeProvider(this.knowledgeHubClient, this.contextBridge, this.liveContextStream, this.trackingScope);
+        this.connectionMonitor = new ConnectionMonitor(
+            this.knowledgeHubClient,
+            this.outputChannel,
+            this.onConnected.bind(this)
+        );
     }
 
-    async activate(context: vscode.ExtensionContext) {
+    async activate(context: vscode.ExtensionContext): Promise<KnowledgeHubExtensionExports> {
         this.outputChannel.appendLine('🧠 Activating KnowledgeHub AI Intelligence...');
 
         try {
-            // Initialize KnowledgeHub connection
-            await this.initializeKnowledgeHub();
-
-            // Register commands
+            // Register commands first so they exist even if the server is down
             this.registerCommands(context);
 
+            // Show connection state from the start
+            context.subscriptions.push(
+                this.trackingScope,
+                this.gitContext,
+                new KnowledgeHubStatusBar(this.knowledgeHubClient, this.connectionMonitor, this.trackingScope)
+            );
+
+            // Apply per-endpoint timeouts, retries and circuit breaker settings
+            this.initializeRequestPolicy(context);
+
+            // Scrub secrets and excluded files from everything sent to the server
+            await this.initializePrivacy(context);
+
+            // Load the API key before the first request goes out
+            await this.initializeAuthentication(context);
+
+            // Restore events that could not be delivered in a previous session
+            await this.initializeOfflineQueue(context);
+
+            // Prepare the WebSocket channel; it opens once the server is reachable
+            this.initializeLiveChannel(context);
+
+            // Workspace and user prompt templates replace the built-in prompts
+            await this.promptTemplates.load();
+            this.promptTemplates.watch();
+            context.subscriptions.push(this.promptTemplates);
+
             // Start AI enhancement
             await this.startAIEnhancement();
 
             // Start context tracking
             await this.startContextTracking();
 
+            // Record commits made in the workspace as decisions
+            context.subscriptions.push(new CommitCapture(this.knowledgeHubClient, this.gitContext, this.outputChannel));
+
+            // Learn from errors in the editor, tasks and terminals, and from their fixes
+            context.subscriptions.push(new ErrorCapture(this.knowledgeHubClient, this.trackingScope, this.outputChannel));
+
             // Register AI provider interceptors
             await this.registerAIInterceptors();
 
+            // Context-aware inline completions (off unless knowledgehub.completion.enabled)
+            context.subscriptions.push(new KnowledgeHubInlineCompletionProvider(this.knowledgeHubClient, this.contextBridge));
+
+            // Populate the explorer view
+            this.initializeTreeView(context);
+
+            // Answer @knowledgehub questions in chat
+            context.subscriptions.push(new KnowledgeHubChatParticipant(this.knowledgeHubClient).register());
+
+            // Let agent mode and other tool-aware extensions call into KnowledgeHub
+            context.subscriptions.push(new KnowledgeHubLanguageModelTools(this.knowledgeHubClient).register());
+
+            // Serve MCP to agents that run outside the extension host
+            await this.initializeMcpServer(context);
+
             // Set context for UI
             vscode.commands.executeCommand('setContext', 'knowledgehub.enabled', true);
 
             this.outputChannel.appendLine('✅ KnowledgeHub AI Intelligence activated successfully!');
-            
-            // Show welcome message
-            this.showWelcomeMessage();
 
         } catch (error) {
             this.outputChannel.appendLine(`❌ Failed to activate KnowledgeHub: ${error}`);
             vscode.window.showErrorMessage(`KnowledgeHub AI failed to activate: ${error}`);
         }
+
+        // Connect in the background; activation never waits on the server
+        this.initializeKnowledgeHub(context);
+
+        // Share this connection with other extensions
+        const memorySources = [this.memoryCapture.onDidChangeMemories];
+        if (this.liveChannel) {
+            memorySources.push(this.liveChannel.onDidReceiveMemory);
+        }
+        const api = new KnowledgeHubPublicApi(this.knowledgeHubClient, this.aiEnhancementLayer, memorySources);
+        context.subscriptions.push(api);
+        return api;
     }
 
-    private async initializeKnowledgeHub() {
-        this.outputChannel.appendLine('🔗 Connecting to KnowledgeHub server...');
-        
-        const isConnected = await this.knowledgeHubClient.testConnection();
-        if (!isConnected) {
-            throw new Error('Cannot connect to KnowledgeHub server. Please check configuration.');
+    private initializeKnowledgeHub(context: vscode.ExtensionContext) {
+        let hasShownWelcome = false;
+        let hasWarnedDisconnected = false;
+
+        context.subscriptions.push(
+            this.connectionMonitor,
+            vscode.workspace.onDidChangeWorkspaceFolders(this.onWorkspaceFoldersChanged.bind(this)),
+            this.connectionMonitor.onDidChangeState(state => {
+                vscode.commands.executeCommand('setContext', 'knowledgehub.connected', state === 'connected');
+
+                if (state === 'connected' && !hasShownWelcome) {
+                    hasShownWelcome = true;
+                    this.showWelcomeMessage();
+                } else if (state === 'disconnected') {
+                    this.liveChannel?.close();
+                    if (!hasWarnedDisconnected) {
+                        hasWarnedDisconnected = true;
+                        this.showDisconnectedMessage();
+                    }
+                }
+            })
+        );
+
+        this.connectionMonitor.start();
+    }
+
+    private async onConnected() {
+        // One session per workspace folder; queued offline events are
+        // replayed by the client once its health check succeeds
+        const sessions = await this.knowledgeHubClient.initializeAISessions();
+        this.liveChannel?.connect(this.knowledgeHubClient.getSessionId() ?? sessions[0].sessionId);
+
+        this.outputChannel.appendLine(sessions.length > 1
+            ? `✅ Connected to KnowledgeHub and initialized ${sessions.length} AI sessions`
+            : '✅ Connected to KnowledgeHub and initialized AI session');
+    }
+
+    private async onWorkspaceFoldersChanged(event: vscode.WorkspaceFoldersChangeEvent) {
+        this.knowledgeHubClient.forgetRemovedFolders(event.removed);
+        if (this.connectionMonitor.currentState !== 'connected') {
+            // Sessions for new folders start with the next connection
+            return;
         }
 
-        // Initialize AI session
-        await this.knowledgeHubClient.initializeAISession();
-        
-        this.outputChannel.appendLine('✅ Connected to KnowledgeHub and initialized AI session');
+        for (const folder of event.added) {
+            try {
+                await this.knowledgeHubClient.initializeAISession(folder);
+                this.outputChannel.appendLine(`✅ Initialized AI session for ${folder.name}`);
+            } catch (error) {
+                this.outputChannel.appendLine(`⚠️ ${error}`);
+            }
+        }
+    }
+
+    private initializeTreeView(context: vscode.ExtensionContext) {
+        const treeView = vscode.window.createTreeView('knowledgehubAI', {
+            treeDataProvider: this.treeProvider,
+            showCollapseAll: true
+        });
+
+        context.subscriptions.push(
+            treeView,
+            this.treeProvider,
+            vscode.commands.registerCommand('knowledgehub.tree.refresh', () => this.treeProvider.refresh()),
+            vscode.commands.registerCommand('knowledgehub.tree.openMemory', (item: KnowledgeHubTreeItem) => this.openMemory(item.payload)),
+            vscode.commands.registerCommand('knowledgehub.tree.copyItem', this.copyTreeItem.bind(this)),
+            vscode.commands.registerCommand('knowledgehub.tree.showProvider', (item: KnowledgeHubTreeItem) =>
+                vscode.commands.executeCommand('extension.open', item.payload.id)
+            ),
+            this.knowledgeHubClient.onDidInitializeSession(() => {
+                this.treeProvider.refresh();
+                DashboardPanel.refreshIfOpen();
+            }),
+            this.connectionMonitor.onDidChangeState(() => this.treeProvider.scheduleRefresh()),
+            // The session shown follows the folder of the active editor
+            vscode.window.onDidChangeActiveTextEditor(() => this.treeProvider.scheduleRefresh('session')),
+            this.liveContextStream.onDidChangeActivity(() => this.treeProvider.scheduleRefresh('activity', 2000)),
+            this.memoryCapture,
+            this.memoryCapture.onDidChangeMemories(() => {
+                this.treeProvider.scheduleRefresh('memories');
+                DashboardPanel.refreshIfOpen();
+            })
+        );
+
+        if (this.liveChannel) {
+            context.subscriptions.push(
+                this.liveChannel.onDidReceiveMemory(() => {
+                    this.treeProvider.scheduleRefresh('memories');
+                    DashboardPanel.refreshIfOpen();
+                }),
+                this.liveChannel.onDidReceiveSessionEvent(() => this.treeProvider.scheduleRefresh('tasks'))
+            );
+        }
+    }
+
+    private async openMemory(memory: Memory) {
+        await MemoryBrowser.openMemory(memory);
+    }
+
+    private async copyTreeItem(item: KnowledgeHubTreeItem) {
+        const text = item.kind === 'memory'
+            ? `${item.payload.title}\n\n${item.payload.summary}`
+            : item.kind === 'task'
+                ? item.payload.title
+                : String(item.payload ?? item.label);
+        await vscode.env.clipboard.writeText(text);
+    }
+
+    private initializeLiveChannel(context: vscode.ExtensionContext) {
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+        if (!config.get('live.enabled', true)) {
+            return;
+        }
+
+        this.liveChannel = new LiveChannel(
+            config.get('server.url', 'http://192.168.1.25:3000'),
+            this.outputChannel,
+            () => this.knowledgeHubClient.getAuthHeaders(),
+            { path: config.get('live.path', '/ws/live') }
+        );
+        this.knowledgeHubClient.setLiveChannel(this.liveChannel);
+
+        context.subscriptions.push(
+            this.liveChannel,
+            this.liveChannel.onDidReceiveMemory(memory => {
+                this.outputChannel.appendLine(`🧠 New memory: ${memory.title}`);
+            }),
+            this.liveChannel.onDidUpdateSuggestions(suggestions => {
+                this.outputChannel.appendLine(`💡 ${suggestions.length} updated suggestions`);
+            }),
+            this.liveChannel.onDidReceiveSessionEvent(event => {
+                this.outputChannel.appendLine(`📡 Session event: ${event.event}`);
+            })
+        );
+    }
+
+    private async initializeMcpServer(context: vscode.ExtensionContext) {
+        const configWriter = new McpClientConfigWriter(context, KnowledgeHubMcpServer.getSocketPath());
+        context.subscriptions.push(
+            vscode.commands.registerCommand('knowledgehub.mcp.writeClientConfig', () => configWriter.writeInteractive())
+        );
+
+        if (!vscode.workspace.getConfiguration('knowledgehub').get('mcp.enabled', true)) {
+            return;
+        }
+
+        const mcpServer = new KnowledgeHubMcpServer(this.knowledgeHubClient, this.outputChannel);
+        context.subscriptions.push(mcpServer);
+        try {
+            await mcpServer.start();
+        } catch (error) {
+            // Usually another window of the same workspace already serves it
+            this.outputChannel.appendLine(`⚠️ ${error}`);
+        }
+    }
+
+    private initializeRequestPolicy(context: vscode.ExtensionContext) {
+        const applyConfiguration = () => {
+            const config = vscode.workspace.getConfiguration('knowledgehub.network');
+            this.knowledgeHubClient.configureRequestPolicy({
+                endpoints: config.get('endpoints', {}),
+                circuitBreaker: {
+                    failureThreshold: config.get('circuitBreaker.failureThreshold', 5),
+                    cooldownMs: config.get('circuitBreaker.cooldownSeconds', 30) * 1000
+                }
+            });
+        };
+
+        applyConfiguration();
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.network')) {
+                    applyConfiguration();
+                }
+            })
+        );
+    }
+
+    private async initializePrivacy(context: vscode.ExtensionContext) {
+        const redactor = new PayloadRedactor(this.outputChannel);
+        const applyConfiguration = () => {
+            const config = vscode.workspace.getConfiguration('knowledgehub.privacy');
+            redactor.configure({
+                excludeGlobs: config.get('excludeGlobs', []),
+                respectGitignore: config.get('respectGitignore', true),
+                detectHighEntropy: config.get('detectHighEntropy', true),
+                entropyThreshold: config.get('entropyThreshold', 4.2),
+                rules: config.get('redactionRules', [])
+            });
+        };
+
+        applyConfiguration();
+        await redactor.loadGitignores();
+        redactor.watchGitignores();
+        this.knowledgeHubClient.setRedactor(redactor);
+
+        context.subscriptions.push(
+            redactor,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.privacy')) {
+                    applyConfiguration();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => redactor.loadGitignores())
+        );
+    }
+
+    private async initializeAuthentication(context: vscode.ExtensionContext) {
+        this.apiKeyManager = new ApiKeyManager(context.secrets);
+        this.knowledgeHubClient.setApiKey(await this.apiKeyManager.getApiKey());
+
+        context.subscriptions.push(
+            this.apiKeyManager,
+            this.apiKeyManager.onDidChangeApiKey(apiKey => this.knowledgeHubClient.setApiKey(apiKey)),
+            this.knowledgeHubClient.onDidFailAuthentication(status => this.onAuthenticationFailed(status)),
+            vscode.commands.registerCommand('knowledgehub.setApiKey', this.setApiKey.bind(this)),
+            vscode.commands.registerCommand('knowledgehub.clearApiKey', this.clearApiKey.bind(this))
+        );
+    }
+
+    private async initializeOfflineQueue(context: vscode.ExtensionContext) {
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+
+        this.offlineQueue = new OfflineEventQueue(context.storageUri, this.outputChannel, {
+            maxEvents: config.get('offline.maxQueuedEvents', 1000)
+        });
+        await this.offlineQueue.load();
+        this.knowledgeHubClient.setOfflineQueue(this.offlineQueue);
     }
 
     private registerCommands(context: vscode.ExtensionContext) {
+        this.decisionRecorder = new DecisionRecorder(this.knowledgeHubClient, this.outputChannel, context.workspaceState);
+
         const commands = [
             vscode.commands.registerCommand('knowledgehub.initSession', this.initSession.bind(this)),
             vscode.commands.registerCommand('knowledgehub.enhanceAI', this.toggleAIEnhancement.bind(this)),
             vscode.commands.registerCommand('knowledgehub.showDashboard', this.showDashboard.bind(this)),
             vscode.commands.registerCommand('knowledgehub.analyzeProject', this.analyzeProject.bind(this)),
-            vscode.commands.registerCommand('knowledgehub.showMemory', this.showMemory.bind(this))
+            vscode.commands.registerCommand('knowledgehub.showMemory', this.showMemory.bind(this)),
+            vscode.workspace.registerTextDocumentContentProvider(MEMORY_SCHEME, new MemoryDocumentProvider(this.knowledgeHubClient)),
+            vscode.commands.registerCommand('knowledgehub.saveSelectionAsMemory', () => this.memoryCapture.saveSelection()),
+            vscode.commands.registerCommand('knowledgehub.saveNoteAsMemory', () => this.memoryCapture.saveNote()),
+            vscode.commands.registerCommand('knowledgehub.editMemory', (item: KnowledgeHubTreeItem) => this.memoryCapture.editMemory(item.payload)),
+            vscode.commands.registerCommand('knowledgehub.deleteMemory', (item: KnowledgeHubTreeItem) => this.memoryCapture.deleteMemory(item.payload)),
+            vscode.commands.registerCommand('knowledgehub.recordDecision', () => this.decisionRecorder!.recordDecision()),
+            vscode.commands.registerCommand('knowledgehub.importAdrs', () => this.decisionRecorder!.importAdrs()),
+            vscode.commands.registerCommand('knowledgehub.showPendingEvents', this.showPendingEvents.bind(this)),
+            vscode.commands.registerCommand('knowledgehub.reconnect', this.reconnect.bind(this)),
+            vscode.commands.registerCommand('knowledgehub.showStatusMenu', this.showStatusMenu.bind(this)),
+            vscode.commands.registerCommand('knowledgehub.setEnhancementLevel', this.setEnhancementLevel.bind(this)),
+            vscode.commands.registerCommand('knowledgehub.previewPromptTemplate', this.previewPromptTemplate.bind(this)),
+            vscode.commands.registerCommand('knowledgehub.pauseTracking', this.pauseTracking.bind(this)),
+            vscode.commands.registerCommand('knowledgehub.resumeTracking', () => this.trackingScope.resume())
         ];
 
         commands.forEach(cmd => context.subscriptions.push(cmd));
@@ -109,6 +442,11 @@ export class KnowledgeHubExtension {
         const availableProviders = await this.aiProviderDetector.detectProviders();
         
         for (const provider of availableProviders) {
+            if (ContextBridge.connectsThroughMcp(provider.name)) {
+                this.outputChannel.appendLine(`ℹ️ ${provider.displayName} connects through the MCP server; run "KnowledgeHub: Configure MCP Clients" to set it up`);
+                continue;
+            }
+
             try {
                 await this.contextBridge.bridgeContextToAI(provider.name, provider.extension);
                 this.outputChannel.appendLine(`✅ Enhanced ${provider.displayName}`);
@@ -119,18 +457,233 @@ export class KnowledgeHubExtension {
     }
 
     private async initSession() {
+        const folders = await pickWorkspaceFolders('Initialize AI Session', true);
+        if (!folders) {
+            return;
+        }
+
         try {
             this.outputChannel.appendLine('🧠 Initializing AI session...');
-            const sessionInfo = await this.knowledgeHubClient.initializeAISession();
-            
+            const sessions = folders.length === 0
+                ? [await this.knowledgeHubClient.initializeAISession(undefined)]
+                : await Promise.all(folders.map(folder => this.knowledgeHubClient.initializeAISession(folder)));
+
+            const memories = sessions.reduce((total, session) => total + session.memories, 0);
+            const tasks = sessions.reduce((total, session) => total + session.tasks, 0);
+            const scope = sessions.length > 1 ? ` for ${sessions.length} folders` : '';
             vscode.window.showInformationMessage(
-                `AI Session Initialized: ${sessionInfo.memories} memories loaded, ${sessionInfo.tasks} tasks pending`
+                `AI Session Initialized${scope}: ${memories} memories loaded, ${tasks} tasks pending`
             );
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to initialize AI session: ${error}`);
         }
     }
 
+    private async setApiKey() {
+        if (!this.apiKeyManager) {
+            return;
+        }
+
+        const apiKey = await this.apiKeyManager.promptForApiKey();
+        if (!apiKey) {
+            return;
+        }
+
+        // Apply immediately rather than waiting for the secret change event
+        this.knowledgeHubClient.setApiKey(apiKey);
+        vscode.window.showInformationMessage('KnowledgeHub API key saved');
+        await this.reconnect();
+    }
+
+    private async clearApiKey() {
+        if (!this.apiKeyManager) {
+            return;
+        }
+
+        await this.apiKeyManager.clearApiKey();
+        this.knowledgeHubClient.setApiKey(undefined);
+        vscode.window.showInformationMessage('KnowledgeHub API key removed');
+    }
+
+    private async onAuthenticationFailed(status: number) {
+        // Several requests can fail at once; only prompt once
+        if (this.isPromptingForApiKey || !this.apiKeyManager) {
+            return;
+        }
+
+        this.isPromptingForApiKey = true;
+        try {
+            const reason = this.knowledgeHubClient.hasApiKey()
+                ? `KnowledgeHub rejected the API key (HTTP ${status})`
+                : `KnowledgeHub requires an API key (HTTP ${status})`;
+
+            const selection = await vscode.window.showWarningMessage(reason, 'Set API Key');
+            if (selection !== 'Set API Key') {
+                return;
+            }
+
+            const apiKey = await this.apiKeyManager.promptForApiKey(`${reason}. Enter a new key:`);
+            if (apiKey) {
+                this.knowledgeHubClient.setApiKey(apiKey);
+                await this.reconnect();
+            }
+        } finally {
+            this.isPromptingForApiKey = false;
+        }
+    }
+
+    private async reconnect() {
+        const isConnected = await this.connectionMonitor.reconnectNow();
+        if (!isConnected) {
+            vscode.window.showWarningMessage('KnowledgeHub server is still unreachable; retrying in the background');
+        }
+    }
+
+    private async pauseTracking() {
+        const durations: (vscode.QuickPickItem & { minutes?: number })[] = [
+            { label: 'For 15 minutes', minutes: 15 },
+            { label: 'For 30 minutes', minutes: 30 },
+            { label: 'For 1 hour', minutes: 60 },
+            { label: 'For 4 hours', minutes: 240 },
+            { label: 'Until I resume' }
+        ];
+
+        const selection = await vscode.window.showQuickPick(durations, {
+            title: 'Pause Change Tracking',
+            placeHolder: 'Edits made while paused are never sent to KnowledgeHub'
+        });
+        if (!selection) {
+            return;
+        }
+
+        this.trackingScope.pause(selection.minutes);
+        this.outputChannel.appendLine(`⏸️ Change tracking paused ${selection.label.toLowerCase()}`);
+    }
+
+    private async showStatusMenu() {
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+        const autoEnhance = config.get('ai.autoEnhance', true);
+
+        const actions: (vscode.QuickPickItem & { command: string })[] = [
+            {
+                label: '$(refresh) Reconnect',
+                description: this.connectionMonitor.currentState,
+                command: 'knowledgehub.reconnect'
+            },
+            {
+                label: autoEnhance ? '$(circle-slash) Disable AI Enhancement' : '$(sparkle) Enable AI Enhancement',
+                command: 'knowledgehub.enhanceAI'
+            },
+            {
+                label: '$(settings) Switch Enhancement Level',
+                description: config.get<string>('ai.enhancementLevel', 'maximum'),
+                command: 'knowledgehub.setEnhancementLevel'
+            },
+            {
+                label: this.trackingScope.isPaused ? '$(debug-start) Resume Change Tracking' : '$(debug-pause) Pause Change Tracking',
+                description: this.trackingScope.describe(),
+                command: this.trackingScope.isPaused ? 'knowledgehub.resumeTracking' : 'knowledgehub.pauseTracking'
+            },
+            {
+                label: '$(pulse) Open Dashboard',
+                command: 'knowledgehub.showDashboard'
+            }
+        ];
+
+        const selection = await vscode.window.showQuickPick(actions, { title: 'KnowledgeHub' });
+        if (selection) {
+            await vscode.commands.executeCommand(selection.command);
+        }
+    }
+
+    private async setEnhancementLevel() {
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+        const current = config.get<string>('ai.enhancementLevel', 'maximum');
+
+        const levels = [
+            { label: 'minimal', detail: 'Only the project path is added to prompts' },
+            { label: 'standard', detail: 'Current file, branch and a few project patterns' },
+            { label: 'maximum', detail: 'Decisions, patterns, suggestions and editor context' }
+        ].map(level => ({ ...level, description: level.label === current ? 'current' : undefined }));
+
+        const selection = await vscode.window.showQuickPick(levels, { title: 'KnowledgeHub Enhancement Level' });
+        if (selection) {
+            await config.update('ai.enhancementLevel', selection.label, vscode.ConfigurationTarget.Global);
+        }
+    }
+
+    private async previewPromptTemplate() {
+        const editor = vscode.window.activeTextEditor;
+        const language = editor?.document.languageId;
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+        const provider = config.get<string>('ai.primaryProvider', 'auto');
+        // Completion templates are matched against the completion backend instead
+        const completionBackend = config.get<string>('completion.backend', 'knowledgehub');
+
+        const kind = await vscode.window.showQuickPick(
+            PROMPT_TEMPLATE_KINDS.map(kind => {
+                const template = this.promptTemplates.resolve(kind, {
+                    provider: kind === 'completion' ? completionBackend : provider,
+                    language
+                });
+                return { label: kind, description: template.source === 'built-in' ? 'built-in' : vscode.workspace.asRelativePath(template.source) };
+            }),
+            { title: 'Preview Prompt Template', placeHolder: `Provider: ${provider}${language ? ` · Language: ${language}` : ''}` }
+        );
+        if (!kind) {
+            return;
+        }
+
+        let rendered: RenderedPrompt;
+        if (kind.label === 'completion') {
+            if (!editor) {
+                vscode.window.showWarningMessage('Open a file to preview the completion template');
+                return;
+            }
+            const document = editor.document;
+            const position = editor.selection.active;
+            const context = await this.knowledgeHubClient.getEnhancedContext({
+                query: document.lineAt(position).text,
+                currentFile: document.fileName,
+                workspaceRoot: vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+            }).catch(() => ({
+                projectSummary: '(project summary from KnowledgeHub)',
+                relevantDecisions: [],
+                relevantPatterns: ['(relevant pattern)'],
+                currentBranch: '',
+                recentChanges: [],
+                suggestions: ['(suggestion)']
+            }));
+            rendered = this.contextBridge.renderCompletionPrompt(
+                document.getText(new vscode.Range(new vscode.Position(Math.max(0, position.line - 10), 0), position)),
+                document.getText(new vscode.Range(position, document.lineAt(Math.min(document.lineCount - 1, position.line + 5)).range.end)),
+                context,
+                document,
+                completionBackend
+            );
+        } else {
+            const prompt = await vscode.window.showInputBox({
+                title: 'Preview Prompt Template',
+                prompt: 'Request to enhance',
+                value: 'How should I structure this change?'
+            });
+            if (prompt === undefined) {
+                return;
+            }
+            rendered = await this.aiEnhancementLayer.previewEnhancedPrompt(prompt, kind.label as PromptTemplateKind);
+        }
+
+        const header = [`<!-- Template: ${rendered.source} -->`];
+        if (rendered.report) {
+            header.push(`<!-- ${PromptBuilder.formatReport(rendered.report).replace(/-->/g, '')} -->`);
+        }
+        const document = await vscode.workspace.openTextDocument({
+            language: 'markdown',
+            content: header.join('\n') + '\n' + rendered.text
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
     private async toggleAIEnhancement() {
         const config = vscode.workspace.getConfiguration('knowledgehub');
         const currentState = config.get('ai.autoEnhance', true);
@@ -143,28 +696,48 @@ export class KnowledgeHubExtension {
 
     private async showDashboard() {
         try {
-            const dashboardUrl = await this.knowledgeHubClient.getDashboardUrl();
-            vscode.env.openExternal(vscode.Uri.parse(dashboardUrl));
+            // Data is fetched through the client, so this also works over
+            // Remote-SSH where the browser cannot reach the server
+            DashboardPanel.createOrShow(
+                this.knowledgeHubClient,
+                () => ({
+                    connectionState: this.connectionMonitor.currentState,
+                    pendingEvents: this.offlineQueue?.pendingCount || 0,
+                    activity: this.liveContextStream.getActivitySummary()
+                }),
+                memory => this.openMemory(memory)
+            );
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to open dashboard: ${error}`);
         }
     }
 
-    private async analyzeProject() {
+    /**
+     * Analyzes the folder given as argument (e.g. from the explorer context
+     * menu), or asks which folder to analyze when the workspace has several.
+     */
+    private async analyzeProject(target?: vscode.Uri) {
         try {
-            this.outputChannel.appendLine('🔍 Analyzing project context...');
-            
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!workspaceRoot) {
+            const targetFolder = target ? resolveWorkspaceFolder(target) : undefined;
+            const folders = targetFolder ? [targetFolder] : await pickWorkspaceFolders('Analyze Project Context', true);
+            if (!folders) {
+                return;
+            }
+            if (folders.length === 0) {
                 vscode.window.showWarningMessage('No workspace folder open');
                 return;
             }
 
-            const analysis = await this.knowledgeHubClient.analyzeProject(workspaceRoot);
+            this.outputChannel.appendLine(`🔍 Analyzing project context (${folders.map(folder => folder.name).join(', ')})...`);
+
+            const analyses = await Promise.all(folders.map(folder => this.knowledgeHubClient.analyzeProject(folder.uri.fsPath)));
+            const result = analyses.length === 1
+                ? analyses[0]
+                : Object.fromEntries(folders.map((folder, index) => [folder.name, analyses[index]]));
             
             // Show analysis in a new document
             const doc = await vscode.workspace.openTextDocument({
-                content: JSON.stringify(analysis, null, 2),
+                content: JSON.stringify(result, null, 2),
                 language: 'json'
             });
             
@@ -177,29 +750,54 @@ export class KnowledgeHubExtension {
 
     private async showMemory() {
         try {
-            const memories = await this.knowledgeHubClient.getRecentMemories();
-            
-            const quickPick = vscode.window.createQuickPick();
-            quickPick.title = 'Recent AI Memories';
-            quickPick.items = memories.map(memory => ({
-                label: memory.title,
-                description: memory.summary,
-                detail: `Type: ${memory.type} | ${memory.timestamp}`
-            }));
-            
-            quickPick.onDidChangeSelection(selection => {
-                if (selection[0]) {
-                    vscode.window.showInformationMessage(selection[0].detail || '');
-                }
-            });
-            
-            quickPick.show();
-            
+            await new MemoryBrowser(this.knowledgeHubClient, this.memoryCapture).show();
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to load memories: ${error}`);
         }
     }
 
+    private async showPendingEvents() {
+        if (!this.offlineQueue || this.offlineQueue.pendingCount === 0) {
+            vscode.window.showInformationMessage('No KnowledgeHub events are waiting to be sent');
+            return;
+        }
+
+        const summary = Object.entries(this.offlineQueue.getPendingSummary())
+            .map(([endpoint, count]) => `${endpoint.split('/').slice(-2).join('/')}: ${count}`)
+            .join(', ');
+
+        const selection = await vscode.window.showInformationMessage(
+            `${this.offlineQueue.pendingCount} KnowledgeHub events pending (${summary})`,
+            'Sync Now',
+            'Discard'
+        );
+
+        if (selection === 'Sync Now') {
+            // A successful health check replays the queue
+            if (this.connectionMonitor.isConnected) {
+                await this.knowledgeHubClient.testConnection();
+            } else {
+                await this.reconnect();
+            }
+        } else if (selection === 'Discard') {
+            await this.offlineQueue.clear();
+        }
+    }
+
+    private showDisconnectedMessage() {
+        vscode.window.showWarningMessage(
+            'KnowledgeHub server is unreachable. Tracking continues locally and will sync when the connection returns.',
+            'Retry Now',
+            'Open Settings'
+        ).then(selection => {
+            if (selection === 'Retry Now') {
+                this.reconnect();
+            } else if (selection === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'knowledgehub.server');
+            }
+        });
+    }
+
     private showWelcomeMessage() {
         const config = vscode.workspace.getConfiguration('knowledgehub');
         const hasShownWelcome = config.get('ui.hasShownWelcome', false);
@@ -219,13 +817,17 @@ export class KnowledgeHubExtension {
         }
     }
 
-    deactivate() {
+    async deactivate(): Promise<void> {
         this.outputChannel.appendLine('🔄 Deactivating KnowledgeHub AI Intelligence...');
         
         // Cleanup resources
+        this.connectionMonitor.stop();
+        this.liveChannel?.close();
         this.liveContextStream.stop();
         this.aiEnhancementLayer.stop();
         this.knowledgeHubClient.disconnect();
+        // VS Code waits for the returned promise, so the last queue write lands
+        await this.offlineQueue?.dispose();
         
         this.outputChannel.appendLine('✅ KnowledgeHub AI Intelligence deactivated');
     }
@@ -241,6 +843,6 @@ export function activate(context: vscode.ExtensionContext) {
 
 export function deactivate() {
     if (extension) {
-        extension.deactivate();
+        return extension.deactivate();
     }
 }
\ No newline at end of file
@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { resolveWorkspaceFolder } from './workspace-resolver';
+
+// The parts of the vscode.git extension API (version 1) used here
+export interface GitBranch {
+    name?: string;
+    commit?: string;
+    upstream?: { remote: string; name: string };
+    ahead?: number;
+    behind?: number;
+}
+
+export interface GitChange {
+    uri: vscode.Uri;
+    // vscode.git Status enum
+    status: number;
+}
+
+export interface GitCommit {
+    hash: string;
+    message: string;
+    parents: string[];
+    authorDate?: Date;
+    authorName?: string;
+    commitDate?: Date;
+}
+
+export interface GitRepository {
+    rootUri: vscode.Uri;
+    state: {
+        HEAD?: GitBranch;
+        indexChanges: GitChange[];
+        workingTreeChanges: GitChange[];
+        mergeChanges: GitChange[];
+        untrackedChanges?: GitChange[];
+        onDidChange: vscode.Event<void>;
+    };
+    diff(cached?: boolean): Promise<string>;
+    getCommit(ref: string): Promise<GitCommit>;
+}
+
+interface GitApi {
+    git: { path: string };
+    repositories: GitRepository[];
+    getRepository(uri: vscode.Uri): GitRepository | null;
+    onDidOpenRepository: vscode.Event<GitRepository>;
+    onDidCloseRepository: vscode.Event<GitRepository>;
+}
+
+export type GitChangeStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'untracked' | 'conflict' | 'typeChanged';
+
+export interface GitFileChange {
+    // Absolute path
+    file: string;
+    status: GitChangeStatus;
+}
+
+export interface GitFileDiff {
+    file: string;
+    added: number;
+    removed: number;
+    // Staged and unstaged hunks; empty once the size cap is reached
+    diff: string;
+}
+
+export interface GitCommitFileStat {
+    file: string;
+    // Undefined for binary files
+    added?: number;
+    removed?: number;
+}
+
+export interface GitContext {
+    repositoryRoot: string;
+    // Branch name, or "detached at <short commit>"
+    head: string;
+    branch?: string;
+    commit?: string;
+    detached: boolean;
+    upstream?: string;
+    ahead?: number;
+    behind?: number;
+    staged: GitFileChange[];
+    uncommitted: GitFileChange[];
+    diffSummary: GitFileDiff[];
+    // Some file diffs were left out to stay under knowledgehub.git.maxDiffBytes
+    diffTruncated: boolean;
+}
+
+// Indexed by the vscode.git Status enum
+const STATUS_NAMES: GitChangeStatus[] = [
+    'modified', 'added', 'deleted', 'renamed', 'copied',         // index
+    'modified', 'deleted', 'untracked', 'untracked', 'added',    // working tree (ignored counts as untracked)
+    'renamed', 'typeChanged',
+    'conflict', 'conflict', 'conflict', 'conflict', 'conflict', 'conflict', 'conflict' // merge
+];
+
+export const NO_REPOSITORY = 'no repository';
+
+/**
+ * Git state of the repository owning a document, read from the built-in
+ * vscode.git extension. Contexts are cached per repository until its state
+ * changes, so context requests fired while typing do not each run git diff.
+ */
+export class GitContextService {
+    private outputChannel: vscode.OutputChannel;
+    private api?: GitApi;
+    private isActivating: boolean = false;
+    private cache: Map<string, Promise<GitContext>> = new Map();
+    private watched: Set<GitRepository> = new Set();
+    private repositoryEmitter = new vscode.EventEmitter<GitRepository>();
+    private disposables: vscode.Disposable[] = [];
+
+    /** Fires when a repository's HEAD, index or working tree changes. */
+    readonly onDidChangeRepository = this.repositoryEmitter.event;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+        this.disposables.push(
+            this.repositoryEmitter,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.git')) {
+                    this.cache.clear();
+                }
+            })
+        );
+    }
+
+    getRepository(target?: vscode.Uri | string): GitRepository | undefined {
+        const git = this.getApi();
+        if (!git) {
+            return undefined;
+        }
+
+        const uri = toUri(target) ?? resolveWorkspaceFolder()?.uri;
+        const repository = uri ? git.getRepository(uri) : null;
+        if (repository) {
+            return repository;
+        }
+
+        // A folder that contains several repositories, or none open yet: the
+        // repository inside the owning folder is the best guess
+        const folder = resolveWorkspaceFolder(uri);
+        return git.repositories.find(repo => folder && vscode.workspace.getWorkspaceFolder(repo.rootUri)?.uri.toString() === folder.uri.toString())
+            ?? (git.repositories.length === 1 ? git.repositories[0] : undefined);
+    }
+
+    getRepositories(): GitRepository[] {
+        return this.getApi()?.repositories ?? [];
+    }
+
+    /** Branch name, "detached at <commit>", or NO_REPOSITORY; never a guess. */
+    getHeadLabel(target?: vscode.Uri | string): string {
+        const repository = this.getRepository(target);
+        return repository ? this.describeHead(repository.state.HEAD) : NO_REPOSITORY;
+    }
+
+    async getContext(target?: vscode.Uri | string): Promise<GitContext | undefined> {
+        const repository = this.getRepository(target);
+        if (!repository) {
+            return undefined;
+        }
+
+        this.watch(repository);
+        const key = repository.rootUri.toString();
+        let context = this.cache.get(key);
+        if (!context) {
+            context = this.readContext(repository);
+            this.cache.set(key, context);
+            // A failed read should be retried on the next request
+            context.catch(() => this.cache.delete(key));
+        }
+
+        try {
+            return await context;
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to read git state of ${repository.rootUri.fsPath}: ${error}`);
+            return undefined;
+        }
+    }
+
+    /** Per-file line counts of a commit against its first parent. */
+    getCommitFileStats(repository: GitRepository, commit: GitCommit): Promise<GitCommitFileStat[]> {
+        const gitPath = this.getApi()?.git.path || 'git';
+        const root = repository.rootUri.fsPath;
+        // Merges are compared with the branch they were merged into
+        const args = commit.parents.length > 0
+            ? ['diff', '--numstat', '--no-renames', commit.parents[0], commit.hash]
+            : ['show', '--numstat', '--format=', '--no-renames', commit.hash];
+
+        // The extension API has no numstat, so ask git directly
+        return new Promise((resolve, reject) => {
+            execFile(gitPath, args, { cwd: root, maxBuffer: 4 * 1024 * 1024 }, (error, stdout) => {
+                if (error) {
+                    reject(error);
+                    return;
+                }
+
+                resolve(stdout.split('\n').filter(line => line.trim()).map(line => {
+                    const [added, removed, file] = line.split('\t');
+                    return {
+                        file: path.join(root, file),
+                        added: added === '-' ? undefined : Number(added),
+                        removed: removed === '-' ? undefined : Number(removed)
+                    };
+                }));
+            });
+        });
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.cache.clear();
+        this.watched.clear();
+    }
+
+    private async readContext(repository: GitRepository): Promise<GitContext> {
+        const head = repository.state.HEAD;
+        const maxDiffBytes = vscode.workspace.getConfiguration('knowledgehub.git').get('maxDiffBytes', 8192);
+        const toFileChange = (change: GitChange): GitFileChange => ({
+            file: change.uri.fsPath,
+            status: STATUS_NAMES[change.status] ?? 'modified'
+        });
+
+        const [staged, unstaged] = maxDiffBytes > 0
+            ? await Promise.all([repository.diff(true), repository.diff(false)])
+            : ['', ''];
+        const { diffs, truncated } = this.summarizeDiff(repository.rootUri.fsPath, [staged, unstaged], maxDiffBytes);
+
+        return {
+            repositoryRoot: repository.rootUri.fsPath,
+            head: this.describeHead(head),
+            branch: head?.name,
+            commit: head?.commit,
+            detached: !head?.name,
+            upstream: head?.upstream ? `${head.upstream.remote}/${head.upstream.name}` : undefined,
+            ahead: head?.ahead,
+            behind: head?.behind,
+            staged: repository.state.indexChanges.map(toFileChange),
+            uncommitted: [
+                ...repository.state.mergeChanges,
+                ...repository.state.workingTreeChanges,
+                ...(repository.state.untrackedChanges ?? [])
+            ].map(toFileChange),
+            diffSummary: diffs,
+            diffTruncated: truncated
+        };
+    }
+
+    private summarizeDiff(root: string, patches: string[], maxBytes: number): { diffs: GitFileDiff[]; truncated: boolean } {
+        const byFile = new Map<string, GitFileDiff>();
+
+        for (const patch of patches) {
+            for (const section of patch.split(/^(?=diff --git )/m)) {
+                const header = /^diff --git a\/(.+?) b\/(.+)$/m.exec(section);
+                if (!header) {
+                    continue;
+                }
+
+                const file = path.join(root, header[2]);
+                const entry = byFile.get(file) ?? { file, added: 0, removed: 0, diff: '' };
+                for (const line of section.split('\n')) {
+                    if (line.startsWith('+') && !line.startsWith('+++')) {
+                        entry.added++;
+                    } else if (line.startsWith('-') && !line.startsWith('---')) {
+                        entry.removed++;
+                    }
+                }
+                entry.diff += section;
+                byFile.set(file, entry);
+            }
+        }
+
+        // Stats for every file, patch text until the cap; smaller diffs first
+        // so one large file does not push out several small ones
+        let bytes = 0;
+        let truncated = false;
+        const diffs = Array.from(byFile.values());
+        for (const entry of [...diffs].sort((a, b) => a.diff.length - b.diff.length)) {
+            const size = Buffer.byteLength(entry.diff);
+            if (bytes + size > maxBytes) {
+                entry.diff = '';
+                truncated = true;
+            } else {
+                bytes += size;
+            }
+        }
+
+        return { diffs, truncated };
+    }
+
+    private describeHead(head: GitBranch | undefined): string {
+        if (head?.name) {
+            return head.name;
+        }
+        return head?.commit ? `detached at ${head.commit.slice(0, 7)}` : 'unborn';
+    }
+
+    private watch(repository: GitRepository): void {
+        if (this.watched.has(repository)) {
+            return;
+        }
+
+        this.watched.add(repository);
+        this.disposables.push(repository.state.onDidChange(() => {
+            this.cache.delete(repository.rootUri.toString());
+            this.repositoryEmitter.fire(repository);
+        }));
+    }
+
+    private getApi(): GitApi | undefined {
+        if (this.api) {
+            return this.api;
+        }
+
+        const gitExtension = vscode.extensions.getExtension('vscode.git');
+        if (!gitExtension) {
+            return undefined;
+        }
+        if (!gitExtension.isActive) {
+            // Usually active before us; if not, start watching once it is
+            if (!this.isActivating) {
+                this.isActivating = true;
+                Promise.resolve(gitExtension.activate()).then(
+                    () => this.getApi(),
+                    error => this.outputChannel.appendLine(`Failed to activate the Git extension: ${error}`)
+                );
+            }
+            return undefined;
+        }
+
+        try {
+            const api: GitApi = gitExtension.exports.getAPI(1);
+            this.api = api;
+            api.repositories.forEach(repository => this.watch(repository));
+            this.disposables.push(
+                api.onDidOpenRepository(repository => this.watch(repository)),
+                api.onDidCloseRepository(repository => {
+                    this.watched.delete(repository);
+                    this.cache.delete(repository.rootUri.toString());
+                })
+            );
+            return api;
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to get the Git API: ${error}`);
+            return undefined;
+        }
+    }
+}
+
+function toUri(target?: vscode.Uri | string): vscode.Uri | undefined {
+    if (!target) {
+        return undefined;
+    }
+    return typeof target === 'string' ? vscode.Uri.file(target) : target;
+}
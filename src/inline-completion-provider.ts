@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient, EnhancedContext } from './knowledgehub-client';
+import { ContextBridge } from './context-bridge';
+import { CompletionBackend, createCompletionBackend } from './completion-backend';
+
+const PREFIX_LINES = 40;
+const SUFFIX_LINES = 15;
+// Enhanced context changes slowly; refetching it per keystroke would double latency
+const CONTEXT_TTL_MS = 60 * 1000;
+
+const EMPTY_CONTEXT: EnhancedContext = {
+    projectSummary: '',
+    relevantDecisions: [],
+    relevantPatterns: [],
+    currentBranch: '',
+    recentChanges: [],
+    suggestions: []
+};
+
+export class KnowledgeHubInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+    private knowledgeHub: KnowledgeHubClient;
+    private contextBridge: ContextBridge;
+    private backend: CompletionBackend;
+    private registration?: vscode.Disposable;
+    private contextCache: Map<string, { context: EnhancedContext; fetchedAt: number }> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(knowledgeHub: KnowledgeHubClient, contextBridge: ContextBridge) {
+        this.knowledgeHub = knowledgeHub;
+        this.contextBridge = contextBridge;
+        this.backend = createCompletionBackend(knowledgeHub);
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.completion')) {
+                    this.backend = createCompletionBackend(this.knowledgeHub);
+                    this.updateRegistration();
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.contextCache.delete(document.uri.toString()))
+        );
+
+        this.updateRegistration();
+    }
+
+    async provideInlineCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.InlineCompletionItem[] | undefined> {
+        // The provider is registered for every file, .env included
+        if (this.knowledgeHub.isExcluded(document.fileName)) {
+            return undefined;
+        }
+
+        const config = vscode.workspace.getConfiguration('knowledgehub.completion');
+
+        // Typing cancels the previous request, so waiting out the debounce
+        // means only the last keystroke in a burst reaches the backend
+        if (context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic) {
+            const isCancelled = await this.debounce(config.get('debounceMs', 300), token);
+            if (isCancelled) {
+                return undefined;
+            }
+        }
+
+        const prefix = document.getText(new vscode.Range(
+            new vscode.Position(Math.max(0, position.line - PREFIX_LINES), 0),
+            position
+        ));
+        const suffix = document.getText(new vscode.Range(
+            position,
+            document.lineAt(Math.min(document.lineCount - 1, position.line + SUFFIX_LINES)).range.end
+        ));
+        if (prefix.trim().length === 0) {
+            return undefined;
+        }
+
+        const enhancedContext = await this.getContext(document, prefix);
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const prompt = this.contextBridge.createEnhancedCompletionPrompt(prefix, suffix, enhancedContext, document, this.backend.name);
+
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+            const completions = await this.backend.complete({
+                prompt,
+                prefix,
+                suffix,
+                languageId: document.languageId,
+                file: document.fileName,
+                maxTokens: config.get('maxTokens', 128)
+            }, controller.signal);
+
+            if (token.isCancellationRequested) {
+                return undefined;
+            }
+
+            return completions
+                .map(completion => this.cleanCompletion(completion))
+                .filter(completion => completion.length > 0)
+                .map(completion => new vscode.InlineCompletionItem(completion, new vscode.Range(position, position)));
+        } catch (error) {
+            if (!token.isCancellationRequested) {
+                console.error('Failed to get inline completion:', error);
+            }
+            return undefined;
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    dispose(): void {
+        this.registration?.dispose();
+        this.registration = undefined;
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private updateRegistration(): void {
+        const isEnabled = vscode.workspace.getConfiguration('knowledgehub.completion').get('enabled', false);
+
+        if (isEnabled && !this.registration) {
+            this.registration = vscode.languages.registerInlineCompletionItemProvider({ pattern: '**' }, this);
+            console.log(`✅ Inline completions enabled (${this.backend.name} backend)`);
+        } else if (!isEnabled && this.registration) {
+            this.registration.dispose();
+            this.registration = undefined;
+            console.log('⏸️ Inline completions disabled');
+        }
+    }
+
+    private async getContext(document: vscode.TextDocument, query: string): Promise<EnhancedContext> {
+        const key = document.uri.toString();
+        const cached = this.contextCache.get(key);
+        if (cached && Date.now() - cached.fetchedAt < CONTEXT_TTL_MS) {
+            return cached.context;
+        }
+
+        try {
+            const context = await this.knowledgeHub.getEnhancedContext({
+                query: query.slice(-500),
+                currentFile: document.fileName,
+                workspaceRoot: vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+            });
+            this.contextCache.set(key, { context, fetchedAt: Date.now() });
+            return context;
+        } catch (error) {
+            // A local backend can still complete without project context
+            return cached?.context ?? EMPTY_CONTEXT;
+        }
+    }
+
+    private debounce(delayMs: number, token: vscode.CancellationToken): Promise<boolean> {
+        if (token.isCancellationRequested) {
+            return Promise.resolve(true);
+        }
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                listener.dispose();
+                resolve(token.isCancellationRequested);
+            }, delayMs);
+            const listener = token.onCancellationRequested(() => {
+                clearTimeout(timer);
+                listener.dispose();
+                resolve(true);
+            });
+        });
+    }
+
+    private cleanCompletion(completion: string): string {
+        // Chat models often wrap code in fences despite being told not to
+        const fenced = /^\s*```[\w-]*\n([\s\S]*?)\n?```\s*$/.exec(completion);
+        const code = fenced ? fenced[1] : completion;
+        return code.replace(/█/g, '').replace(/\s+$/, '');
+    }
+}
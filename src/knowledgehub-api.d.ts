@@ -0,0 +1,156 @@
+/*---------------------------------------------------------------------------------------------
+ *  Public API of the KnowledgeHub AI Intelligence extension.
+ *
+ *  Copy this file into your extension and use it like this:
+ *
+ *      const extension = vscode.extensions.getExtension<KnowledgeHubExtensionExports>('knowledgehub.knowledgehub-ai-intelligence');
+ *      const knowledgeHub = (await extension?.activate())?.getAPI(1);
+ *
+ *  Versions are never changed in place: breaking changes ship as a new
+ *  version number and getAPI keeps serving the old ones.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Event, Position } from 'vscode';
+
+export interface MemorySource {
+    file: string;
+    startLine?: number;
+    endLine?: number;
+    commit?: string;
+    branch?: string;
+    workspaceFolder?: string;
+}
+
+export interface Memory {
+    id: string;
+    title: string;
+    summary: string;
+    type: string;
+    timestamp: string;
+    relevance: number;
+    content?: string;
+    tags?: string[];
+    pinned?: boolean;
+    source?: MemorySource;
+}
+
+export interface MemorySearchQuery {
+    text?: string;
+    types?: string[];
+    /** ISO 8601 date */
+    from?: string;
+    /** ISO 8601 date */
+    to?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export interface MemorySearchResult {
+    memories: Memory[];
+    total: number;
+}
+
+export interface EnhancedContextRequest {
+    query: string;
+    currentFile?: string;
+    workspaceRoot?: string;
+    recentChanges?: any;
+}
+
+export interface EnhancedContext {
+    projectSummary: string;
+    relevantDecisions: string[];
+    relevantPatterns: string[];
+    /** Branch name, or "detached at <commit>" */
+    currentBranch: string;
+    /** Branch, upstream ahead/behind, staged and uncommitted files and a size-capped diff of the owning repository */
+    recentChanges: any;
+    suggestions: string[];
+}
+
+export interface Decision {
+    description: string;
+    alternatives: string[];
+    reasoning: string;
+    /** 0 to 1 */
+    confidence: number;
+}
+
+/** 'queued' means the server was unreachable and the decision will be sent when it reconnects. */
+export type DecisionStatus = 'sent' | 'queued';
+
+export interface ErrorLearning {
+    message: string;
+    stack?: string;
+    context: any;
+    solution?: string;
+}
+
+export interface AIRequest {
+    prompt: string;
+    context?: any;
+    provider?: string;
+    model?: string;
+    /** Tokens the target model accepts; looked up from the model name when omitted */
+    contextWindow?: number;
+}
+
+export interface VSCodeContext {
+    activeFile: string;
+    workspaceRoot: string;
+    gitBranch: string;
+    openFiles: string[];
+    /** Uncommitted files as { file, added, removed, diff }; diff is empty past the size cap */
+    recentChanges: any[];
+    cursorPosition?: Position;
+    selectedText?: string;
+}
+
+export interface DroppedPromptItem {
+    section: 'project' | 'decisions' | 'patterns' | 'editor' | 'selection' | 'suggestions';
+    preview: string;
+    tokens: number;
+    reason: 'truncated' | 'dropped';
+}
+
+export interface PromptBuildReport {
+    contextWindow: number;
+    budgetTokens: number;
+    usedTokens: number;
+    includedItems: number;
+    dropped: DroppedPromptItem[];
+}
+
+export interface EnhancedPrompt extends AIRequest {
+    /** The prompt with project context added, or the original prompt when enhancement is off or failed */
+    enhancedPrompt: string;
+    knowledgeHubContext?: EnhancedContext;
+    vscodeContext?: VSCodeContext;
+    /** What had to be truncated or dropped to fit the model's context window */
+    promptReport?: PromptBuildReport;
+}
+
+export interface KnowledgeHubApiV1 {
+    readonly version: 1;
+
+    /** Fires for memories pushed by the server or saved in this window. */
+    readonly onDidReceiveMemory: Event<Memory>;
+
+    getEnhancedContext(request: EnhancedContextRequest): Promise<EnhancedContext>;
+    searchMemories(query: MemorySearchQuery): Promise<MemorySearchResult>;
+
+    /**
+     * Queued for later delivery when the server is unreachable. Rejects when
+     * the server refuses the decision, so it is never silently dropped.
+     */
+    recordDecision(decision: Decision): Promise<DecisionStatus>;
+
+    /** Queued for later delivery when the server is unreachable. */
+    learnFromError(error: ErrorLearning): Promise<void>;
+
+    enhancePrompt(request: AIRequest): Promise<EnhancedPrompt>;
+}
+
+export interface KnowledgeHubExtensionExports {
+    getAPI(version: 1): KnowledgeHubApiV1;
+}
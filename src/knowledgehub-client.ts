@@ -1,5 +1,19 @@
 import * as vscode from 'vscode';
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { OfflineEventQueue, QueuedEvent, QueueSendResult } from './offline-queue';
+import { EndpointName, RequestPolicy, RequestPolicyConfig } from './request-policy';
+import { LiveChannel } from './live-channel';
+import { PayloadRedactor } from './payload-redactor';
+import { resolveWorkspaceFolder } from './workspace-resolver';
+import { GitContextService, GitCommitFileStat, NO_REPOSITORY } from './git-context';
+
+// Endpoint class of each URL whose events can be queued offline, so
+// replays get the same timeouts and circuit breaker as live requests
+const QUEUED_ENDPOINTS: Record<string, EndpointName> = {
+    '/api/claude-auto/code/track': 'track',
+    '/api/claude-auto/decision/record': 'decision',
+    '/api/claude-auto/learning/error': 'learning'
+};
 
 export interface AISessionInfo {
     sessionId: string;
@@ -8,6 +22,8 @@ export interface AISessionInfo {
     predictedFocus: string;
     estimatedDuration: string;
     aiFeatures: string[];
+    // Absolute path of the workspace folder the session belongs to
+    workspaceFolder?: string;
 }
 
 export interface ProjectAnalysis {
@@ -26,6 +42,49 @@ export interface Memory {
     type: string;
     timestamp: string;
     relevance: number;
+    content?: string;
+    tags?: string[];
+    pinned?: boolean;
+    source?: MemorySource;
+}
+
+export interface MemorySource {
+    file: string;
+    startLine?: number;
+    endLine?: number;
+    commit?: string;
+    branch?: string;
+    workspaceFolder?: string;
+}
+
+export interface MemoryInput {
+    title: string;
+    content: string;
+    type: string;
+    tags?: string[];
+    summary?: string;
+    source?: MemorySource;
+}
+
+export interface MemorySearchQuery {
+    text?: string;
+    types?: string[];
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export interface MemorySearchResult {
+    memories: Memory[];
+    total: number;
+}
+
+export interface PendingTask {
+    id: string;
+    title: string;
+    status: string;
+    description?: string;
 }
 
 export interface EnhancedContext {
@@ -37,15 +96,81 @@ export interface EnhancedContext {
     suggestions: string[];
 }
 
+export interface CompletionRequest {
+    prompt: string;
+    prefix: string;
+    suffix: string;
+    languageId: string;
+    file: string;
+    maxTokens: number;
+}
+
+export interface CodeChangeBatch {
+    // Identifies one activation; sequence restarts at 1 with each new epoch
+    epoch: string;
+    // Increases by one per batch within the epoch so the server can order and detect gaps
+    sequence: number;
+    file: string;
+    language: string;
+    // Document versions the diff goes from and to
+    baseVersion: number;
+    version: number;
+    startedAt: string;
+    endedAt: string;
+    editCount: number;
+    // Unified diff hunks; empty when the file was too large to diff
+    diff: string;
+    linesAdded: number;
+    linesRemoved: number;
+    // Hunks left out to stay under knowledgehub.memory.maxBatchBytes
+    omittedHunks: number;
+}
+
+// Queued decisions are replayed once the server is reachable again
+export type DecisionStatus = 'sent' | 'queued';
+
+export interface DecisionCommit {
+    hash: string;
+    // Branch name, or "detached at <short commit>"
+    branch: string;
+    repository: string;
+    files: GitCommitFileStat[];
+    insertions: number;
+    deletions: number;
+}
+
+export interface DecisionAdr {
+    // Relative to the workspace folder
+    file: string;
+    workspaceFolder: string;
+    number?: number;
+    status?: string;
+}
+
 export class KnowledgeHubClient {
     private client: AxiosInstance;
     private outputChannel: vscode.OutputChannel;
     private serverUrl: string;
-    private currentSessionId?: string;
+    // One session per workspace folder, keyed by folder URI
+    private sessions: Map<string, AISessionInfo> = new Map();
+    private sessionEmitter = new vscode.EventEmitter<AISessionInfo>();
+    private apiKey?: string;
+    private offlineQueue?: OfflineEventQueue;
+    private liveChannel?: LiveChannel;
+    private redactor?: PayloadRedactor;
+    private gitContext?: GitContextService;
+    private requestPolicy: RequestPolicy;
+    private authFailureEmitter = new vscode.EventEmitter<number>();
+
+    readonly onDidFailAuthentication = this.authFailureEmitter.event;
+    readonly onDidInitializeSession = this.sessionEmitter.event;
+    readonly onDidChangeOpenCircuits: vscode.Event<EndpointName[]>;
 
     constructor(serverUrl: string, outputChannel: vscode.OutputChannel) {
         this.serverUrl = serverUrl;
         this.outputChannel = outputChannel;
+        this.requestPolicy = new RequestPolicy(outputChannel);
+        this.onDidChangeOpenCircuits = this.requestPolicy.onDidChangeOpenCircuits;
         
         this.client = axios.create({
             baseURL: serverUrl,
@@ -59,6 +184,8 @@ export class KnowledgeHubClient {
         // Add request/response interceptors for logging
         this.client.interceptors.request.use(
             (config) => {
+                // Read the key per request so a rotated key applies immediately
+                Object.assign(config.headers, this.getAuthHeaders());
                 this.outputChannel.appendLine(`📤 ${config.method?.toUpperCase()} ${config.url}`);
                 return config;
             },
@@ -75,77 +202,198 @@ export class KnowledgeHubClient {
             },
             (error) => {
                 this.outputChannel.appendLine(`❌ Response error: ${error.message}`);
+                const status = error.response?.status;
+                if (status === 401 || status === 403) {
+                    this.authFailureEmitter.fire(status);
+                }
                 return Promise.reject(error);
             }
         );
     }
 
+    setApiKey(apiKey: string | undefined): void {
+        this.apiKey = apiKey;
+        this.outputChannel.appendLine(apiKey ? '🔑 API key configured' : '🔑 API key cleared');
+    }
+
+    hasApiKey(): boolean {
+        return !!this.apiKey;
+    }
+
+    getAuthHeaders(): Record<string, string> {
+        return this.apiKey ? { 'X-API-Key': this.apiKey } : {};
+    }
+
+    /** The session of the folder owning the target, or of the active document's folder. */
+    getSessionId(target?: vscode.Uri | string): string | undefined {
+        return this.getSessionInfo(target)?.sessionId;
+    }
+
+    getSessionInfo(target?: vscode.Uri | string): AISessionInfo | undefined {
+        return this.sessions.get(this.sessionKey(resolveWorkspaceFolder(target)));
+    }
+
+    getSessions(): AISessionInfo[] {
+        return Array.from(this.sessions.values());
+    }
+
+    configureRequestPolicy(config: RequestPolicyConfig): void {
+        this.requestPolicy.configure(config);
+    }
+
+    setOfflineQueue(queue: OfflineEventQueue): void {
+        this.offlineQueue = queue;
+    }
+
+    setLiveChannel(channel: LiveChannel): void {
+        this.liveChannel = channel;
+    }
+
+    setRedactor(redactor: PayloadRedactor): void {
+        this.redactor = redactor;
+    }
+
+    setGitContext(gitContext: GitContextService): void {
+        this.gitContext = gitContext;
+    }
+
+    /** Excluded by the privacy settings; nothing from such a file may leave the machine. */
+    isExcluded(file: string | undefined, baseDirectory?: string): boolean {
+        return this.redactor?.isExcluded(file, baseDirectory) ?? false;
+    }
+
     async testConnection(): Promise<boolean> {
         try {
-            const response = await this.client.get('/health');
-            return response.status === 200 && response.data.status === 'healthy';
+            const response = await this.get('health', '/health');
+            const healthy = response.status === 200 && response.data.status === 'healthy';
+            if (healthy) {
+                this.replayOfflineEvents();
+            }
+            return healthy;
         } catch (error) {
             this.outputChannel.appendLine(`Connection test failed: ${error}`);
             return false;
         }
     }
 
-    async initializeAISession(): Promise<AISessionInfo> {
+    /**
+     * Starts a session for one workspace folder, the active document's folder
+     * by default. Each folder is its own KnowledgeHub project.
+     */
+    async initializeAISession(folder: vscode.WorkspaceFolder | undefined = resolveWorkspaceFolder()): Promise<AISessionInfo> {
         try {
-            const workspaceInfo = this.getWorkspaceInfo();
+            const workspaceInfo = this.getWorkspaceInfo(folder);
             
-            const response = await this.client.post('/api/claude-auto/session/init', {
+            const response = await this.post('session', '/api/claude-auto/session/init', {
                 workspace: workspaceInfo,
                 timestamp: new Date().toISOString(),
                 vscodeVersion: vscode.version,
                 extensions: this.getInstalledExtensions()
             });
 
-            this.currentSessionId = response.data.sessionId;
-            
-            return {
+            const sessionInfo: AISessionInfo = {
                 sessionId: response.data.sessionId,
                 memories: response.data.memoriesLoaded || 0,
                 tasks: response.data.incompleteTasks || 0,
                 predictedFocus: response.data.predictedFocus || 'Development',
                 estimatedDuration: response.data.estimatedDuration || '2-3 hours',
-                aiFeatures: response.data.aiFeatures || []
+                aiFeatures: response.data.aiFeatures || [],
+                workspaceFolder: folder?.uri.fsPath
             };
+            this.sessions.set(this.sessionKey(folder), sessionInfo);
+            this.sessionEmitter.fire(sessionInfo);
+
+            return sessionInfo;
         } catch (error) {
             throw new Error(`Failed to initialize AI session: ${error}`);
         }
     }
 
+    /** Starts a session for every workspace folder; folders that fail are logged and skipped. */
+    async initializeAISessions(): Promise<AISessionInfo[]> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0) {
+            return [await this.initializeAISession(undefined)];
+        }
+
+        const results = await Promise.allSettled(folders.map(folder => this.initializeAISession(folder)));
+        const sessions: AISessionInfo[] = [];
+        results.forEach((result, index) => {
+            if (result.status === 'fulfilled') {
+                sessions.push(result.value);
+            } else {
+                this.outputChannel.appendLine(`Failed to initialize session for ${folders[index].name}: ${result.reason}`);
+            }
+        });
+
+        if (sessions.length === 0) {
+            throw new Error('Failed to initialize AI session for any workspace folder');
+        }
+        return sessions;
+    }
+
+    /** Drops sessions of folders that are no longer in the workspace. */
+    forgetRemovedFolders(removed: readonly vscode.WorkspaceFolder[]): void {
+        removed.forEach(folder => this.sessions.delete(this.sessionKey(folder)));
+    }
+
     async getEnhancedContext(request: {
         query: string;
         currentFile?: string;
         workspaceRoot?: string;
         recentChanges?: any;
     }): Promise<EnhancedContext> {
+        // The request is about currentFile (or the folder it names), which
+        // need not be in the same folder as the active editor
+        const target = request.currentFile || request.workspaceRoot;
+        const git = await this.gitContext?.getContext(target);
+
         try {
-            const response = await this.client.post('/api/claude-auto/context/enhance', {
+            const response = await this.post('context', '/api/claude-auto/context/enhance', {
                 ...request,
-                sessionId: this.currentSessionId,
+                recentChanges: request.recentChanges ?? git,
+                sessionId: this.getSessionId(target),
                 vscodeContext: {
                     activeFile: vscode.window.activeTextEditor?.document.fileName,
-                    workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
-                    gitBranch: await this.getCurrentGitBranch(),
+                    workspaceRoot: request.workspaceRoot || resolveWorkspaceFolder(target)?.uri.fsPath,
+                    gitBranch: git?.head ?? NO_REPOSITORY,
                     openFiles: vscode.workspace.textDocuments.map(doc => doc.fileName),
-                    recentEdits: this.getRecentEdits()
+                    recentEdits: (git?.diffSummary ?? []).map(({ file, added, removed }) => ({ file, added, removed }))
                 }
             });
 
-            return response.data;
+            // Local git state stands in for whatever the server leaves out
+            const context: EnhancedContext = response.data;
+            return {
+                ...context,
+                currentBranch: context.currentBranch || git?.head || NO_REPOSITORY,
+                recentChanges: context.recentChanges ?? git ?? []
+            };
         } catch (error) {
             throw new Error(`Failed to get enhanced context: ${error}`);
         }
     }
 
+    async getCompletions(request: CompletionRequest, signal?: AbortSignal): Promise<string[]> {
+        try {
+            const response = await this.request('completion', {
+                method: 'POST',
+                url: '/api/claude-auto/completion',
+                data: { ...request, sessionId: this.getSessionId(request.file) },
+                signal
+            });
+
+            return response.data.completions || [];
+        } catch (error) {
+            throw new Error(`Failed to get completions: ${error}`);
+        }
+    }
+
     async analyzeProject(workspaceRoot: string): Promise<ProjectAnalysis> {
         try {
-            const response = await this.client.post('/api/claude-auto/project/analyze', {
+            const response = await this.post('analyze', '/api/claude-auto/project/analyze', {
                 workspaceRoot,
-                sessionId: this.currentSessionId,
+                sessionId: this.getSessionId(workspaceRoot),
                 includePatterns: true,
                 includeSuggestions: true
             });
@@ -158,25 +406,131 @@ export class KnowledgeHubClient {
 
     async getRecentMemories(limit: number = 10): Promise<Memory[]> {
         try {
-            const response = await this.client.get(`/api/memory/context/quick/claude?limit=${limit}`);
+            const response = await this.get('memories', `/api/memory/context/quick/claude?limit=${limit}`);
             return response.data.memories || [];
         } catch (error) {
             throw new Error(`Failed to get recent memories: ${error}`);
         }
     }
 
-    async trackCodeChange(change: {
-        file: string;
-        changes: vscode.TextDocumentContentChangeEvent[];
-        timestamp: string;
-    }): Promise<void> {
+    async searchMemories(query: MemorySearchQuery): Promise<MemorySearchResult> {
+        try {
+            const params = new URLSearchParams();
+            if (query.text) {
+                params.set('q', query.text);
+            }
+            if (query.types && query.types.length > 0) {
+                params.set('types', query.types.join(','));
+            }
+            if (query.from) {
+                params.set('from', query.from);
+            }
+            if (query.to) {
+                params.set('to', query.to);
+            }
+            params.set('limit', String(query.limit ?? 20));
+            params.set('offset', String(query.offset ?? 0));
+
+            const response = await this.get('memories', `/api/memory/search?${params.toString()}`);
+            const memories: Memory[] = response.data.memories || [];
+            return {
+                memories,
+                total: response.data.total ?? memories.length
+            };
+        } catch (error) {
+            throw new Error(`Failed to search memories: ${error}`);
+        }
+    }
+
+    async getMemory(id: string): Promise<Memory> {
+        try {
+            const response = await this.get('memories', `/api/memory/memories/${encodeURIComponent(id)}`);
+            return response.data;
+        } catch (error) {
+            throw new Error(`Failed to get memory: ${error}`);
+        }
+    }
+
+    async createMemory(memory: MemoryInput): Promise<Memory> {
+        if (memory.source && this.isExcluded(memory.source.file, memory.source.workspaceFolder)) {
+            throw new Error(`Failed to create memory: ${memory.source.file} is excluded by the privacy settings`);
+        }
+
+        try {
+            const response = await this.post('memoryWrite', '/api/memory/memories', {
+                ...memory,
+                // source.file is relative to its folder, so it cannot locate the session itself
+                sessionId: this.getSessionId(memory.source?.workspaceFolder ?? memory.source?.file),
+                timestamp: new Date().toISOString()
+            });
+            return response.data;
+        } catch (error) {
+            throw new Error(`Failed to create memory: ${error}`);
+        }
+    }
+
+    async updateMemory(id: string, changes: Partial<MemoryInput>): Promise<Memory> {
+        try {
+            const response = await this.request('memoryWrite', {
+                method: 'PATCH',
+                url: `/api/memory/memories/${encodeURIComponent(id)}`,
+                data: changes
+            });
+            return response.data;
+        } catch (error) {
+            throw new Error(`Failed to update memory: ${error}`);
+        }
+    }
+
+    async setMemoryPinned(id: string, pinned: boolean): Promise<void> {
+        try {
+            await this.request('memoryWrite', {
+                method: 'PATCH',
+                url: `/api/memory/memories/${encodeURIComponent(id)}`,
+                data: { pinned }
+            });
+        } catch (error) {
+            throw new Error(`Failed to ${pinned ? 'pin' : 'unpin'} memory: ${error}`);
+        }
+    }
+
+    async deleteMemory(id: string): Promise<void> {
         try {
-            await this.client.post('/api/claude-auto/code/track', {
-                ...change,
-                sessionId: this.currentSessionId
+            await this.request('memoryWrite', {
+                method: 'DELETE',
+                url: `/api/memory/memories/${encodeURIComponent(id)}`
             });
         } catch (error) {
-            this.outputChannel.appendLine(`Failed to track code change: ${error}`);
+            throw new Error(`Failed to delete memory: ${error}`);
+        }
+    }
+
+    async getPendingTasks(): Promise<PendingTask[]> {
+        try {
+            const sessionId = this.getSessionId();
+            const sessionQuery = sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : '';
+            const response = await this.get('tasks', `/api/claude-auto/tasks/pending${sessionQuery}`);
+            return response.data.tasks || [];
+        } catch (error) {
+            throw new Error(`Failed to get pending tasks: ${error}`);
+        }
+    }
+
+    async trackChangeBatch(batch: CodeChangeBatch): Promise<void> {
+        if (this.isExcluded(batch.file)) {
+            return;
+        }
+
+        const payload = {
+            ...batch,
+            sessionId: this.getSessionId(batch.file)
+        };
+
+        try {
+            await this.post('track', '/api/claude-auto/code/track', payload);
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to track change batch #${batch.sequence}: ${error}`);
+            this.queueIfOffline(error, '/api/claude-auto/code/track', payload);
         }
     }
 
@@ -185,15 +539,28 @@ export class KnowledgeHubClient {
         alternatives: string[];
         reasoning: string;
         confidence: number;
-    }): Promise<void> {
+        // Set when the decision was recorded from a commit
+        commit?: DecisionCommit;
+        // Set when the decision is also kept as an ADR file
+        adr?: DecisionAdr;
+    }): Promise<DecisionStatus> {
+        const payload = {
+            ...decision,
+            sessionId: this.getSessionId(decision.commit?.repository ?? decision.adr?.workspaceFolder),
+            timestamp: new Date().toISOString()
+        };
+
         try {
-            await this.client.post('/api/claude-auto/decision/record', {
-                ...decision,
-                sessionId: this.currentSessionId,
-                timestamp: new Date().toISOString()
-            });
+            await this.post('decision', '/api/claude-auto/decision/record', payload);
+            return 'sent';
         } catch (error) {
             this.outputChannel.appendLine(`Failed to record decision: ${error}`);
+            if (this.queueIfOffline(error, '/api/claude-auto/decision/record', payload,
+                `${decision.description}\n${decision.reasoning}`)) {
+                return 'queued';
+            }
+            // Rejected by the server, or no queue to hold it
+            throw new Error(`Failed to record decision: ${error}`);
         }
     }
 
@@ -203,14 +570,40 @@ export class KnowledgeHubClient {
         context: any;
         solution?: string;
     }): Promise<void> {
+        // Errors in excluded files would carry their code in the solution diff
+        if (this.isExcluded(error.context?.file)) {
+            return;
+        }
+
+        const payload = {
+            ...error,
+            sessionId: this.getSessionId(error.context?.file ?? error.context?.workspaceFolder),
+            timestamp: new Date().toISOString()
+        };
+
+        try {
+            await this.post('learning', '/api/claude-auto/learning/error', payload);
+        } catch (requestError) {
+            this.outputChannel.appendLine(`Failed to record error learning: ${requestError}`);
+            this.queueIfOffline(requestError, '/api/claude-auto/learning/error', payload,
+                `${error.message}\n${error.stack || ''}\n${error.solution || ''}`);
+        }
+    }
+
+    async pushLiveContext(delta: any): Promise<void> {
+        // Prefer the socket; HTTP is the fallback when it is not connected
+        if (this.liveChannel?.send('context.delta', this.redact(delta, 'context.delta'))) {
+            return;
+        }
+
         try {
-            await this.client.post('/api/claude-auto/learning/error', {
-                ...error,
-                sessionId: this.currentSessionId,
+            await this.post('live', '/api/claude-auto/context/live', {
+                delta,
+                sessionId: this.getSessionId(),
                 timestamp: new Date().toISOString()
             });
         } catch (error) {
-            this.outputChannel.appendLine(`Failed to record error learning: ${error}`);
+            this.outputChannel.appendLine(`Failed to push live context: ${error}`);
         }
     }
 
@@ -218,46 +611,99 @@ export class KnowledgeHubClient {
         return `${this.serverUrl}/ai-dashboard`;
     }
 
-    private getWorkspaceInfo() {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        
+    private get(endpoint: EndpointName, url: string): Promise<AxiosResponse> {
+        return this.request(endpoint, { method: 'GET', url });
+    }
+
+    private post(endpoint: EndpointName, url: string, data?: any): Promise<AxiosResponse> {
+        return this.request(endpoint, { method: 'POST', url, data });
+    }
+
+    private request(endpoint: EndpointName, config: AxiosRequestConfig): Promise<AxiosResponse> {
+        // Timeouts, retries and the circuit breaker are decided per endpoint
+        const data = this.redact(config.data, config.url || endpoint);
+        return this.requestPolicy.execute(endpoint, timeout => this.client.request({ ...config, data, timeout }));
+    }
+
+    /** Also used for payloads sent to other servers, such as a local completion backend. */
+    redact<T>(payload: T, endpoint: string): T {
+        return this.redactor ? this.redactor.redact(payload, endpoint) : payload;
+    }
+
+    /** True when the event is waiting in the queue, including when an identical one already was. */
+    private queueIfOffline(error: any, endpoint: string, payload: any, dedupeKey?: string): boolean {
+        if (!this.offlineQueue || !this.isRetryableError(error)) {
+            return false;
+        }
+
+        // The queue is persisted, so secrets must not reach it either
+        if (this.offlineQueue.enqueue(endpoint, this.redact(payload, endpoint), dedupeKey)) {
+            this.outputChannel.appendLine(`📦 Queued ${endpoint} for replay (${this.offlineQueue.pendingCount} pending)`);
+        }
+        return true;
+    }
+
+    private replayOfflineEvents(): void {
+        if (!this.offlineQueue || this.offlineQueue.pendingCount === 0) {
+            return;
+        }
+
+        this.offlineQueue.drain(event => this.sendQueuedEvent(event)).catch(error => {
+            this.outputChannel.appendLine(`Failed to replay offline events: ${error}`);
+        });
+    }
+
+    private async sendQueuedEvent(event: QueuedEvent): Promise<QueueSendResult> {
+        try {
+            await this.post(QUEUED_ENDPOINTS[event.endpoint] ?? 'track', event.endpoint, event.payload);
+            return 'sent';
+        } catch (error: any) {
+            // An open circuit fails fast without a response too
+            if (!error?.response) {
+                return 'unreachable';
+            }
+            return this.isRetryableError(error) ? 'retry' : 'drop';
+        }
+    }
+
+    private isRetryableError(error: any): boolean {
+        // No response means the server was unreachable; 5xx, 408, 429 and
+        // auth failures are expected to clear up on their own or after a key change
+        const status = error?.response?.status;
+        return status === undefined || status >= 500 || [401, 403, 408, 429].includes(status);
+    }
+
+    private getWorkspaceInfo(workspaceFolder: vscode.WorkspaceFolder | undefined) {
+        const documents = vscode.workspace.textDocuments.filter(doc =>
+            !workspaceFolder || vscode.workspace.getWorkspaceFolder(doc.uri)?.uri.toString() === workspaceFolder.uri.toString()
+        );
+        const activeDocument = vscode.window.activeTextEditor?.document;
+        const isActiveInFolder = activeDocument && documents.includes(activeDocument);
+
         return {
             name: workspaceFolder?.name || 'Unknown',
             path: workspaceFolder?.uri.fsPath || '',
-            language: vscode.window.activeTextEditor?.document.languageId || 'unknown',
-            files: vscode.workspace.textDocuments.length
+            language: (isActiveInFolder ? activeDocument.languageId : documents[0]?.languageId) || 'unknown',
+            files: documents.length,
+            gitBranch: this.gitContext?.getHeadLabel(workspaceFolder?.uri) ?? NO_REPOSITORY
         };
     }
 
+    private sessionKey(folder: vscode.WorkspaceFolder | undefined): string {
+        return folder?.uri.toString() ?? 'no-workspace';
+    }
+
     private getInstalledExtensions(): string[] {
         return vscode.extensions.all
             .filter(ext => ext.isActive)
             .map(ext => ext.id);
     }
 
-    private async getCurrentGitBranch(): Promise<string> {
-        try {
-            // Use VS Code's built-in Git extension
-            const gitExtension = vscode.extensions.getExtension('vscode.git');
-            if (gitExtension?.isActive) {
-                const git = gitExtension.exports.getAPI(1);
-                const repo = git.repositories[0];
-                return repo?.state?.HEAD?.name || 'main';
-            }
-        } catch (error) {
-            this.outputChannel.appendLine(`Failed to get Git branch: ${error}`);
-        }
-        return 'main';
-    }
-
-    private getRecentEdits(): any[] {
-        // Track recent edits in memory for context
-        // This would be implemented with actual change tracking
-        return [];
-    }
-
     disconnect(): void {
         // Cleanup any connections
+        this.authFailureEmitter.dispose();
+        this.sessionEmitter.dispose();
+        this.requestPolicy.dispose();
         this.outputChannel.appendLine('🔌 Disconnected from KnowledgeHub');
     }
 }
\ No newline at end of file
@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { KnowledgeHubClient, Memory, PendingTask } from './knowledgehub-client';
+import { ContextBridge, AIProviderExtension } from './context-bridge';
+import { LiveContextStream } from './live-context';
+import { TrackingScope } from './tracking-scope';
+
+export type TreeNodeKind =
+    | 'section'
+    | 'session'
+    | 'memory'
+    | 'provider'
+    | 'task'
+    | 'activity'
+    | 'message';
+
+export type SectionId = 'session' | 'memories' | 'providers' | 'tasks' | 'activity';
+
+export class KnowledgeHubTreeItem extends vscode.TreeItem {
+    constructor(
+        readonly kind: TreeNodeKind,
+        label: string,
+        collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
+        readonly section?: SectionId,
+        readonly payload?: any
+    ) {
+        super(label, collapsibleState);
+        // Context menus in package.json match on viewItem == knowledgehub.<kind>
+        this.contextValue = section && kind === 'section' ? `knowledgehub.section.${section}` : `knowledgehub.${kind}`;
+    }
+}
+
+export class KnowledgeHubTreeProvider implements vscode.TreeDataProvider<KnowledgeHubTreeItem> {
+    private knowledgeHub: KnowledgeHubClient;
+    private contextBridge: ContextBridge;
+    private liveContextStream: LiveContextStream;
+    private trackingScope: TrackingScope;
+    private changeEmitter = new vscode.EventEmitter<KnowledgeHubTreeItem | undefined>();
+    private refreshTimer?: NodeJS.Timeout;
+    private pendingSections: Set<SectionId | undefined> = new Set();
+    private sectionItems: Map<SectionId, KnowledgeHubTreeItem> = new Map();
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(knowledgeHub: KnowledgeHubClient, contextBridge: ContextBridge, liveContextStream: LiveContextStream, trackingScope: TrackingScope) {
+        this.knowledgeHub = knowledgeHub;
+        this.contextBridge = contextBridge;
+        this.liveContextStream = liveContextStream;
+        this.trackingScope = trackingScope;
+    }
+
+    refresh(section?: SectionId): void {
+        this.changeEmitter.fire(section ? this.sectionItems.get(section) : undefined);
+    }
+
+    /**
+     * Coalesces bursts of events (typing, pushes) into one refresh per section.
+     */
+    scheduleRefresh(section?: SectionId, delayMs: number = 1000): void {
+        this.pendingSections.add(section);
+        if (this.refreshTimer) {
+            return;
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            const sections = Array.from(this.pendingSections);
+            this.pendingSections.clear();
+
+            if (sections.includes(undefined)) {
+                this.refresh();
+            } else {
+                sections.forEach(pending => this.refresh(pending));
+            }
+        }, delayMs);
+    }
+
+    getTreeItem(element: KnowledgeHubTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: KnowledgeHubTreeItem): Promise<KnowledgeHubTreeItem[]> {
+        if (!element) {
+            return this.getSections();
+        }
+
+        if (element.kind !== 'section' || !element.section) {
+            return [];
+        }
+
+        try {
+            switch (element.section) {
+                case 'session':
+                    return this.getSessionItems();
+                case 'memories':
+                    return await this.getMemoryItems();
+                case 'providers':
+                    return this.getProviderItems();
+                case 'tasks':
+                    return await this.getTaskItems();
+                case 'activity':
+                    return this.getActivityItems();
+            }
+        } catch (error) {
+            return [this.message(`Unavailable: ${error}`, 'warning')];
+        }
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.changeEmitter.dispose();
+    }
+
+    private getSections(): KnowledgeHubTreeItem[] {
+        const sections: [SectionId, string, string][] = [
+            ['session', 'Session', 'pulse'],
+            ['memories', 'Recent Memories', 'book'],
+            ['providers', 'Bridged Providers', 'plug'],
+            ['tasks', 'Pending Tasks', 'tasklist'],
+            ['activity', 'Live Activity', 'graph-line']
+        ];
+
+        this.sectionItems.clear();
+        return sections.map(([id, label, icon]) => {
+            const item = new KnowledgeHubTreeItem('section', label, vscode.TreeItemCollapsibleState.Expanded, id);
+            item.id = `knowledgehub.section.${id}`;
+            item.iconPath = new vscode.ThemeIcon(icon);
+            this.sectionItems.set(id, item);
+            return item;
+        });
+    }
+
+    private getSessionItems(): KnowledgeHubTreeItem[] {
+        const session = this.knowledgeHub.getSessionInfo();
+        if (!session) {
+            return [this.message('No active session', 'debug-disconnect')];
+        }
+
+        const rows: [string, string, string][] = [
+            ['Session', session.sessionId, 'key'],
+            ['Memories loaded', String(session.memories), 'book'],
+            ['Pending tasks', String(session.tasks), 'tasklist'],
+            ['Predicted focus', session.predictedFocus, 'target'],
+            ['Estimated duration', session.estimatedDuration, 'watch']
+        ];
+
+        // Each folder of a multi-root workspace has its own session; show the active one
+        const sessionCount = this.knowledgeHub.getSessions().length;
+        if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1 && session.workspaceFolder) {
+            const others = sessionCount > 1 ? ` (+${sessionCount - 1} more)` : '';
+            rows.unshift(['Folder', `${path.basename(session.workspaceFolder)}${others}`, 'folder']);
+        }
+
+        const items = rows.map(([label, value, icon]) => {
+            const item = new KnowledgeHubTreeItem('session', label, vscode.TreeItemCollapsibleState.None, 'session', value);
+            item.description = value;
+            item.iconPath = new vscode.ThemeIcon(icon);
+            return item;
+        });
+
+        if (session.aiFeatures.length > 0) {
+            const features = new KnowledgeHubTreeItem('session', 'AI features', vscode.TreeItemCollapsibleState.None, 'session', session.aiFeatures.join(', '));
+            features.description = session.aiFeatures.join(', ');
+            features.iconPath = new vscode.ThemeIcon('sparkle');
+            items.push(features);
+        }
+
+        return items;
+    }
+
+    private async getMemoryItems(): Promise<KnowledgeHubTreeItem[]> {
+        const memories = await this.knowledgeHub.getRecentMemories(10);
+        if (memories.length === 0) {
+            return [this.message('No memories yet', 'info')];
+        }
+
+        return memories.map((memory: Memory) => {
+            const item = new KnowledgeHubTreeItem('memory', memory.title, vscode.TreeItemCollapsibleState.None, 'memories', memory);
+            item.id = `knowledgehub.memory.${memory.id}`;
+            item.description = memory.type;
+            item.tooltip = new vscode.MarkdownString(`**${memory.title}**\n\n${memory.summary}\n\n_${memory.type} · ${memory.timestamp}_`);
+            item.iconPath = new vscode.ThemeIcon('note');
+            item.command = {
+                command: 'knowledgehub.tree.openMemory',
+                title: 'Open Memory',
+                arguments: [item]
+            };
+            return item;
+        });
+    }
+
+    private getProviderItems(): KnowledgeHubTreeItem[] {
+        const providers = this.contextBridge.getBridgedProviders();
+        if (providers.length === 0) {
+            return [this.message('No AI providers bridged', 'info')];
+        }
+
+        return providers.map((provider: AIProviderExtension) => {
+            const item = new KnowledgeHubTreeItem('provider', provider.displayName, vscode.TreeItemCollapsibleState.None, 'providers', provider);
+            item.description = provider.extension.isActive ? `active · api ${provider.apiVersion || 'n/a'}` : 'inactive';
+            item.tooltip = provider.id;
+            item.iconPath = new vscode.ThemeIcon(provider.extension.isActive ? 'plug' : 'circle-slash');
+            return item;
+        });
+    }
+
+    private async getTaskItems(): Promise<KnowledgeHubTreeItem[]> {
+        const tasks = await this.knowledgeHub.getPendingTasks();
+        if (tasks.length === 0) {
+            return [this.message('No pending tasks', 'check')];
+        }
+
+        return tasks.map((task: PendingTask) => {
+            const item = new KnowledgeHubTreeItem('task', task.title, vscode.TreeItemCollapsibleState.None, 'tasks', task);
+            item.id = `knowledgehub.task.${task.id}`;
+            item.description = task.status;
+            item.tooltip = task.description || task.title;
+            item.iconPath = new vscode.ThemeIcon('circle-large-outline');
+            return item;
+        });
+    }
+
+    private getActivityItems(): KnowledgeHubTreeItem[] {
+        const summary = this.liveContextStream.getActivitySummary();
+        const items: KnowledgeHubTreeItem[] = [];
+
+        const tracking = new KnowledgeHubTreeItem('activity', 'Change tracking', vscode.TreeItemCollapsibleState.None, 'activity');
+        const filters = this.trackingScope.describeFilters();
+        tracking.description = filters.length > 0 ? `${this.trackingScope.describe()} · filtered` : this.trackingScope.describe();
+        tracking.tooltip = [this.trackingScope.describe(), ...filters].join('\n');
+        tracking.iconPath = new vscode.ThemeIcon(this.trackingScope.isTracking ? 'record' : 'debug-pause');
+        tracking.contextValue = this.trackingScope.isPaused ? 'knowledgehub.activity.trackingPaused' : 'knowledgehub.activity.tracking';
+        items.push(tracking);
+
+        const rows: [string, string, string][] = [
+            ['Changes (last hour)', String(summary.changesLastHour), 'edit'],
+            ['Saves (last hour)', String(summary.savesLastHour), 'save'],
+            ['Active files', String(summary.activeFiles), 'files']
+        ];
+
+        for (const [label, value, icon] of rows) {
+            const item = new KnowledgeHubTreeItem('activity', label, vscode.TreeItemCollapsibleState.None, 'activity');
+            item.description = value;
+            item.iconPath = new vscode.ThemeIcon(icon);
+            items.push(item);
+        }
+
+        if (summary.currentFile) {
+            const uri = vscode.Uri.file(summary.currentFile);
+            const current = new KnowledgeHubTreeItem('activity', 'Current file', vscode.TreeItemCollapsibleState.None, 'activity', uri);
+            current.description = vscode.workspace.asRelativePath(uri);
+            current.resourceUri = uri;
+            current.contextValue = 'knowledgehub.activity.file';
+            current.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+            items.push(current);
+        }
+
+        return items;
+    }
+
+    private message(label: string, icon: string): KnowledgeHubTreeItem {
+        const item = new KnowledgeHubTreeItem('message', label);
+        item.iconPath = new vscode.ThemeIcon(icon);
+        return item;
+    }
+}
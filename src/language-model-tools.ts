@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient, Memory } from './knowledgehub-client';
+import { parseConfidence } from './commit-capture';
+import { resolveWorkspaceFolder } from './workspace-resolver';
+
+export interface SearchMemoriesInput {
+    query: string;
+    types?: string[];
+    limit?: number;
+}
+
+export interface GetDecisionsInput {
+    topic?: string;
+    limit?: number;
+}
+
+export interface RecordDecisionInput {
+    description: string;
+    reasoning: string;
+    alternatives?: string[];
+    confidence?: number;
+}
+
+export interface ProjectAnalysisInput {
+    workspacePath?: string;
+}
+
+// Tool names must match the languageModelTools contribution in package.json
+export class KnowledgeHubLanguageModelTools {
+    private knowledgeHub: KnowledgeHubClient;
+
+    constructor(knowledgeHub: KnowledgeHubClient) {
+        this.knowledgeHub = knowledgeHub;
+    }
+
+    register(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.lm.registerTool<SearchMemoriesInput>('knowledgehub_searchMemories', {
+                invoke: (options, token) => this.searchMemories(options.input, token)
+            }),
+            vscode.lm.registerTool<GetDecisionsInput>('knowledgehub_getDecisions', {
+                invoke: (options, token) => this.getDecisions(options.input, token)
+            }),
+            vscode.lm.registerTool<RecordDecisionInput>('knowledgehub_recordDecision', {
+                prepareInvocation: options => this.prepareRecordDecision(options.input),
+                invoke: options => this.recordDecision(options.input)
+            }),
+            vscode.lm.registerTool<ProjectAnalysisInput>('knowledgehub_projectAnalysis', {
+                prepareInvocation: () => ({ invocationMessage: 'Analyzing project with KnowledgeHub' }),
+                invoke: options => this.analyzeProject(options.input)
+            })
+        );
+    }
+
+    private async searchMemories(input: SearchMemoriesInput, token: vscode.CancellationToken): Promise<vscode.LanguageModelToolResult> {
+        const result = await this.knowledgeHub.searchMemories({
+            text: input.query,
+            types: input.types,
+            limit: Math.min(input.limit ?? 10, 50)
+        });
+        if (token.isCancellationRequested) {
+            return this.text('Cancelled');
+        }
+
+        if (result.memories.length === 0) {
+            return this.text(`No memories match "${input.query}".`);
+        }
+
+        return this.text(
+            `Found ${result.total} memories (showing ${result.memories.length}):\n\n` +
+            result.memories.map(memory => this.formatMemory(memory)).join('\n\n')
+        );
+    }
+
+    private async getDecisions(input: GetDecisionsInput, token: vscode.CancellationToken): Promise<vscode.LanguageModelToolResult> {
+        const limit = Math.min(input.limit ?? 10, 50);
+        const [context, result] = await Promise.all([
+            this.knowledgeHub.getEnhancedContext({
+                query: input.topic || 'architectural decisions',
+                currentFile: vscode.window.activeTextEditor?.document.fileName,
+                workspaceRoot: resolveWorkspaceFolder()?.uri.fsPath
+            }).catch(() => undefined),
+            this.knowledgeHub.searchMemories({ text: input.topic, types: ['decision'], limit })
+        ]);
+        if (token.isCancellationRequested) {
+            return this.text('Cancelled');
+        }
+
+        const lines: string[] = [];
+        if (context && context.relevantDecisions.length > 0) {
+            lines.push('Relevant decisions:', ...context.relevantDecisions.slice(0, limit).map(decision => `- ${decision}`), '');
+        }
+        if (result.memories.length > 0) {
+            lines.push('Recorded decisions:', '', ...result.memories.map(memory => this.formatMemory(memory)));
+        }
+
+        return this.text(lines.length > 0 ? lines.join('\n') : 'No decisions recorded for this topic.');
+    }
+
+    private prepareRecordDecision(input: RecordDecisionInput): vscode.PreparedToolInvocation {
+        const alternatives = input.alternatives && input.alternatives.length > 0
+            ? `\n\n**Alternatives:** ${input.alternatives.join(', ')}`
+            : '';
+
+        return {
+            invocationMessage: 'Recording decision in KnowledgeHub',
+            confirmationMessages: {
+                title: 'Record decision in KnowledgeHub?',
+                message: new vscode.MarkdownString(`**${input.description}**\n\n${input.reasoning}${alternatives}`)
+            }
+        };
+    }
+
+    private async recordDecision(input: RecordDecisionInput): Promise<vscode.LanguageModelToolResult> {
+        // Models sometimes send percentages; read them the way the MCP tool does
+        const confidence = input.confidence === undefined
+            ? 0.8
+            : parseConfidence(String(input.confidence)) ?? 0;
+
+        // A decision the server rejects throws, which reports the error to the model
+        const status = await this.knowledgeHub.recordDecision({
+            description: input.description,
+            reasoning: input.reasoning,
+            alternatives: input.alternatives || [],
+            confidence
+        });
+
+        return this.text(status === 'queued'
+            ? `KnowledgeHub is unreachable; the decision was queued and will be recorded when it reconnects: ${input.description}`
+            : `Decision recorded: ${input.description}`);
+    }
+
+    private async analyzeProject(input: ProjectAnalysisInput): Promise<vscode.LanguageModelToolResult> {
+        const workspaceRoot = input.workspacePath || resolveWorkspaceFolder()?.uri.fsPath;
+        if (!workspaceRoot) {
+            return this.text('No workspace folder is open.');
+        }
+
+        const analysis = await this.knowledgeHub.analyzeProject(workspaceRoot);
+        return this.text([
+            `Project type: ${analysis.projectType}`,
+            `Complexity: ${analysis.complexity}`,
+            `Technologies: ${analysis.technologies.join(', ') || 'none detected'}`,
+            'Patterns:',
+            ...analysis.patterns.map(pattern => `- ${pattern}`),
+            'Suggestions:',
+            ...analysis.suggestions.map(suggestion => `- ${suggestion}`)
+        ].join('\n'));
+    }
+
+    private formatMemory(memory: Memory): string {
+        const tags = memory.tags && memory.tags.length > 0 ? ` [${memory.tags.join(', ')}]` : '';
+        const source = memory.source ? `\nSource: ${memory.source.file}${memory.source.startLine ? `:${memory.source.startLine}` : ''}` : '';
+        return `### ${memory.title} (${memory.type}, ${memory.timestamp})${tags}\n${memory.content || memory.summary}${source}`;
+    }
+
+    private text(value: string): vscode.LanguageModelToolResult {
+        return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(value)]);
+    }
+}
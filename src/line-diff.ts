@@ -0,0 +1,169 @@
+export interface DiffHunk {
+    // Unified diff text, header included
+    text: string;
+    added: number;
+    removed: number;
+}
+
+interface DiffOp {
+    type: ' ' | '-' | '+';
+    line: string;
+}
+
+// Past this many inserted plus deleted lines the middle is sent as one replaced block
+const MAX_EDIT_DISTANCE = 400;
+
+/**
+ * Line-based unified diff (Myers) between two versions of a document.
+ * Common leading and trailing lines are trimmed first, so typical coalesced
+ * edits cost little more than the lines that actually changed.
+ */
+export function createUnifiedDiff(before: string, after: string, contextLines: number): DiffHunk[] {
+    const a = before.split(/\r?\n/);
+    const b = after.split(/\r?\n/);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    if (middleA.length === 0 && middleB.length === 0) {
+        return [];
+    }
+
+    const ops: DiffOp[] = [
+        ...a.slice(Math.max(0, prefix - contextLines), prefix).map(line => ({ type: ' ' as const, line })),
+        ...(diffLines(middleA, middleB) ?? [
+            ...middleA.map(line => ({ type: '-' as const, line })),
+            ...middleB.map(line => ({ type: '+' as const, line }))
+        ]),
+        ...a.slice(a.length - suffix, a.length - suffix + contextLines).map(line => ({ type: ' ' as const, line }))
+    ];
+
+    const leading = Math.min(prefix, contextLines);
+    return toHunks(ops, prefix - leading, contextLines);
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] | undefined {
+    const n = a.length;
+    const m = b.length;
+    const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = maxD + 1;
+    const v = new Int32Array(2 * offset + 1);
+    // trace[d] holds x for k = -d, -d + 2, ..., d after step d
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= maxD; d++) {
+        const step = new Int32Array(d + 1);
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            step[(k + d) / 2] = x;
+
+            if (x >= n && y >= m) {
+                trace.push(step);
+                return backtrack(trace, a, b);
+            }
+        }
+        trace.push(step);
+    }
+
+    return undefined;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffOp[] {
+    const ops: DiffOp[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = trace.length - 1; d > 0; d--) {
+        const previous = trace[d - 1];
+        const at = (k: number) => previous[(k + d - 1) / 2];
+        const k = x - y;
+        const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const previousX = at(previousK);
+        const previousY = previousX - previousK;
+
+        while (x > previousX && y > previousY) {
+            ops.push({ type: ' ', line: a[--x] });
+            y--;
+        }
+        if (x === previousX) {
+            ops.push({ type: '+', line: b[--y] });
+        } else {
+            ops.push({ type: '-', line: a[--x] });
+        }
+    }
+    while (x > 0 && y > 0) {
+        ops.push({ type: ' ', line: a[--x] });
+        y--;
+    }
+
+    return ops.reverse();
+}
+
+function toHunks(ops: DiffOp[], firstLine: number, contextLines: number): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let lineA = firstLine;
+    let lineB = firstLine;
+    let index = 0;
+
+    while (index < ops.length) {
+        // Skip to the next change, keeping up to contextLines of lead-in
+        let change = index;
+        while (change < ops.length && ops[change].type === ' ') {
+            change++;
+        }
+        if (change === ops.length) {
+            break;
+        }
+        const start = Math.max(index, change - contextLines);
+        lineA += start - index;
+        lineB += start - index;
+
+        // Extend until a run of unchanged lines is long enough to split hunks
+        let end = change;
+        let unchanged = 0;
+        for (let i = change; i < ops.length; i++) {
+            if (ops[i].type === ' ') {
+                unchanged++;
+                if (unchanged > contextLines * 2) {
+                    break;
+                }
+            } else {
+                unchanged = 0;
+                end = i + 1;
+            }
+        }
+        end = Math.min(ops.length, end + contextLines);
+
+        const slice = ops.slice(start, end);
+        const countA = slice.filter(op => op.type !== '+').length;
+        const countB = slice.filter(op => op.type !== '-').length;
+        const header = `@@ -${countA === 0 ? lineA : lineA + 1},${countA} +${countB === 0 ? lineB : lineB + 1},${countB} @@`;
+        hunks.push({
+            text: [header, ...slice.map(op => op.type + op.line)].join('\n'),
+            added: slice.filter(op => op.type === '+').length,
+            removed: slice.filter(op => op.type === '-').length
+        });
+
+        lineA += countA;
+        lineB += countB;
+        index = end;
+    }
+
+    return hunks;
+}
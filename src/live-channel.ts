@@ -0,0 +1,271 @@
+import * as vscode from 'vscode';
+import WebSocket from 'ws';
+import { Memory } from './knowledgehub-client';
+
+export type LiveChannelState = 'closed' | 'connecting' | 'open';
+
+export interface LiveSessionEvent {
+    event: string;
+    sessionId?: string;
+    data?: any;
+}
+
+type ServerMessage =
+    | { type: 'memory.created'; memory: Memory }
+    | { type: 'suggestions.updated'; suggestions: string[] }
+    | { type: 'session.event'; event: string; sessionId?: string; data?: any };
+
+export interface LiveChannelOptions {
+    path: string;
+    heartbeatIntervalMs: number;
+    initialBackoffMs: number;
+    maxBackoffMs: number;
+}
+
+const DEFAULT_OPTIONS: LiveChannelOptions = {
+    path: '/ws/live',
+    heartbeatIntervalMs: 30000,
+    initialBackoffMs: 2000,
+    maxBackoffMs: 60000
+};
+
+export class LiveChannel {
+    private serverUrl: string;
+    private outputChannel: vscode.OutputChannel;
+    private options: LiveChannelOptions;
+    private getHeaders: () => Record<string, string>;
+    private socket?: WebSocket;
+    private state: LiveChannelState = 'closed';
+    private sessionId?: string;
+    private shouldReconnect: boolean = false;
+    private backoffMs: number;
+    private reconnectTimer?: NodeJS.Timeout;
+    private heartbeatTimer?: NodeJS.Timeout;
+    private isAwaitingPong: boolean = false;
+
+    private memoryEmitter = new vscode.EventEmitter<Memory>();
+    private suggestionsEmitter = new vscode.EventEmitter<string[]>();
+    private sessionEventEmitter = new vscode.EventEmitter<LiveSessionEvent>();
+    private stateEmitter = new vscode.EventEmitter<LiveChannelState>();
+
+    readonly onDidReceiveMemory = this.memoryEmitter.event;
+    readonly onDidUpdateSuggestions = this.suggestionsEmitter.event;
+    readonly onDidReceiveSessionEvent = this.sessionEventEmitter.event;
+    readonly onDidChangeState = this.stateEmitter.event;
+
+    constructor(
+        serverUrl: string,
+        outputChannel: vscode.OutputChannel,
+        getHeaders: () => Record<string, string>,
+        options: Partial<LiveChannelOptions> = {}
+    ) {
+        this.serverUrl = serverUrl;
+        this.outputChannel = outputChannel;
+        this.getHeaders = getHeaders;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.backoffMs = this.options.initialBackoffMs;
+    }
+
+    get isOpen(): boolean {
+        return this.state === 'open';
+    }
+
+    connect(sessionId?: string): void {
+        this.sessionId = sessionId;
+        this.shouldReconnect = true;
+        this.clearReconnectTimer();
+
+        // A new session needs a fresh handshake
+        if (this.socket) {
+            this.teardownSocket();
+        }
+        this.open();
+    }
+
+    /**
+     * Sends a message if the socket is open. Returns false when the caller
+     * should fall back to HTTP.
+     */
+    send(type: string, payload: any): boolean {
+        if (!this.socket || this.state !== 'open') {
+            return false;
+        }
+
+        try {
+            this.socket.send(JSON.stringify({ type, sessionId: this.sessionId, payload }));
+            return true;
+        } catch (error) {
+            this.outputChannel.appendLine(`Live channel send failed: ${error}`);
+            return false;
+        }
+    }
+
+    close(): void {
+        this.shouldReconnect = false;
+        this.clearReconnectTimer();
+        this.teardownSocket();
+    }
+
+    dispose(): void {
+        this.close();
+        this.memoryEmitter.dispose();
+        this.suggestionsEmitter.dispose();
+        this.sessionEventEmitter.dispose();
+        this.stateEmitter.dispose();
+    }
+
+    private open(): void {
+        const url = this.buildUrl();
+        this.setState('connecting');
+
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(url, { headers: this.getHeaders() });
+        } catch (error) {
+            this.outputChannel.appendLine(`Live channel unavailable: ${error}`);
+            this.setState('closed');
+            this.scheduleReconnect();
+            return;
+        }
+        this.socket = socket;
+
+        socket.on('open', () => {
+            this.outputChannel.appendLine(`⚡ Live channel connected: ${url}`);
+            this.backoffMs = this.options.initialBackoffMs;
+            this.setState('open');
+            this.startHeartbeat();
+            this.send('hello', { client: 'vscode', vscodeVersion: vscode.version });
+        });
+
+        socket.on('message', data => this.handleMessage(data.toString()));
+
+        socket.on('pong', () => {
+            this.isAwaitingPong = false;
+        });
+
+        socket.on('error', error => {
+            this.outputChannel.appendLine(`Live channel error: ${error.message}`);
+        });
+
+        socket.on('close', () => {
+            // Ignore late events from a socket that was already replaced
+            if (this.socket !== socket) {
+                return;
+            }
+            this.stopHeartbeat();
+            this.socket = undefined;
+            this.setState('closed');
+            this.scheduleReconnect();
+        });
+    }
+
+    private handleMessage(raw: string): void {
+        let message: ServerMessage;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            this.outputChannel.appendLine('Live channel received malformed message');
+            return;
+        }
+
+        switch (message.type) {
+            case 'memory.created':
+                this.memoryEmitter.fire(message.memory);
+                break;
+
+            case 'suggestions.updated':
+                this.suggestionsEmitter.fire(message.suggestions || []);
+                break;
+
+            case 'session.event':
+                this.sessionEventEmitter.fire({
+                    event: message.event,
+                    sessionId: message.sessionId,
+                    data: message.data
+                });
+                break;
+
+            default:
+                // Unknown pushes are tolerated so the server can add types
+                break;
+        }
+    }
+
+    private startHeartbeat(): void {
+        this.stopHeartbeat();
+        this.isAwaitingPong = false;
+
+        this.heartbeatTimer = setInterval(() => {
+            if (!this.socket) {
+                return;
+            }
+
+            // No pong since the last ping: the connection is half-open
+            if (this.isAwaitingPong) {
+                this.outputChannel.appendLine('⚠️ Live channel heartbeat missed, reconnecting');
+                this.socket.terminate();
+                return;
+            }
+
+            this.isAwaitingPong = true;
+            this.socket.ping();
+        }, this.options.heartbeatIntervalMs);
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = undefined;
+        }
+    }
+
+    private scheduleReconnect(): void {
+        if (!this.shouldReconnect || this.reconnectTimer) {
+            return;
+        }
+
+        const delay = Math.round(this.backoffMs / 2 + Math.random() * this.backoffMs / 2);
+        this.backoffMs = Math.min(this.backoffMs * 2, this.options.maxBackoffMs);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.open();
+        }, delay);
+    }
+
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+    }
+
+    private teardownSocket(): void {
+        this.stopHeartbeat();
+        const socket = this.socket;
+        this.socket = undefined;
+        if (socket) {
+            socket.removeAllListeners();
+            // Swallow errors from a socket closed before it finished connecting
+            socket.on('error', () => undefined);
+            socket.terminate();
+        }
+        this.setState('closed');
+    }
+
+    private buildUrl(): string {
+        const url = new URL(this.options.path, this.serverUrl);
+        url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+        if (this.sessionId) {
+            url.searchParams.set('sessionId', this.sessionId);
+        }
+        return url.toString();
+    }
+
+    private setState(state: LiveChannelState): void {
+        if (this.state !== state) {
+            this.state = state;
+            this.stateEmitter.fire(state);
+        }
+    }
+}
@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
 import { KnowledgeHubClient } from './knowledgehub-client';
+import { ChangeBatcher } from './change-batcher';
+import { TrackingMode, TrackingScope } from './tracking-scope';
+import { resolveWorkspaceFolder } from './workspace-resolver';
 
 export interface LiveContext {
     recentChanges: DocumentChange[];
@@ -15,16 +18,35 @@ export interface DocumentChange {
     language: string;
 }
 
+export interface LiveContextDelta {
+    since: number;
+    changes?: { file: string; language: string; timestamp: number; changeCount: number }[];
+    currentFocus?: string;
+    activePatterns?: string[];
+    projectState?: any;
+}
+
 export class LiveContextStream {
     private knowledgeHub: KnowledgeHubClient;
     private contextBuffer: ContextBuffer;
+    private changeBatcher: ChangeBatcher;
+    private trackingScope: TrackingScope;
+    // What the change batcher was last started with, to tell which scope changes need a restart
+    private batcherScope?: { isTracking: boolean; mode: TrackingMode };
     private disposables: vscode.Disposable[] = [];
     private isActive: boolean = false;
     private contextUpdateTimer?: NodeJS.Timeout;
+    private lastSyncedAt: number = 0;
+    private lastSyncedContext?: LiveContext;
+    private activityEmitter = new vscode.EventEmitter<void>();
 
-    constructor(knowledgeHub: KnowledgeHubClient) {
+    readonly onDidChangeActivity = this.activityEmitter.event;
+
+    constructor(knowledgeHub: KnowledgeHubClient, trackingScope: TrackingScope) {
         this.knowledgeHub = knowledgeHub;
+        this.trackingScope = trackingScope;
         this.contextBuffer = new ContextBuffer();
+        this.changeBatcher = new ChangeBatcher(knowledgeHub, trackingScope);
     }
 
     async startContextTracking(): Promise<void> {
@@ -33,6 +55,15 @@ export class LiveContextStream {
         }
 
         this.isActive = true;
+        this.batcherScope = { isTracking: this.trackingScope.isTracking, mode: this.trackingScope.mode };
+        if (this.trackingScope.isTracking) {
+            this.changeBatcher.start();
+        }
+
+        // Settings and pauses apply without restarting
+        this.disposables.push(
+            this.trackingScope.onDidChange(this.onTrackingScopeChange.bind(this))
+        );
         
         // Track document changes
         this.disposables.push(
@@ -70,6 +101,7 @@ export class LiveContextStream {
 
     stop(): void {
         this.isActive = false;
+        this.changeBatcher.stop();
         
         // Dispose all event listeners
         this.disposables.forEach(disposable => disposable.dispose());
@@ -84,6 +116,10 @@ export class LiveContextStream {
         console.log('📊 Live context tracking stopped');
     }
 
+    getActivitySummary(): any {
+        return this.contextBuffer.getActivitySummary();
+    }
+
     async getLatestContext(): Promise<LiveContext> {
         return {
             recentChanges: this.contextBuffer.getRecentChanges(),
@@ -94,7 +130,7 @@ export class LiveContextStream {
     }
 
     private async onDocumentChange(event: vscode.TextDocumentChangeEvent): Promise<void> {
-        if (!this.isActive || event.document.uri.scheme !== 'file') {
+        if (!this.isActive || !this.trackingScope.shouldTrack(event.document)) {
             return;
         }
 
@@ -107,15 +143,10 @@ export class LiveContextStream {
 
         // Add to context buffer
         this.contextBuffer.addChange(change);
+        this.activityEmitter.fire();
 
-        // Track with KnowledgeHub (async, don't wait)
-        this.knowledgeHub.trackCodeChange({
-            file: event.document.fileName,
-            changes: Array.from(event.contentChanges),
-            timestamp: new Date().toISOString()
-        }).catch(error => {
-            console.error('Failed to track code change:', error);
-        });
+        // Coalesced per file and sent as a diff once the file goes idle
+        this.changeBatcher.recordChange(event);
     }
 
     private async onEditorChange(editor: vscode.TextEditor | undefined): Promise<void> {
@@ -124,23 +155,50 @@ export class LiveContextStream {
         }
 
         this.contextBuffer.setCurrentFile(editor.document.fileName);
+        this.activityEmitter.fire();
         
         // Update focus context
         await this.updateCurrentFocus(editor.document.fileName);
     }
 
     private async onDocumentSave(document: vscode.TextDocument): Promise<void> {
-        if (!this.isActive || document.uri.scheme !== 'file') {
+        if (!this.isActive || !this.trackingScope.shouldTrack(document)) {
             return;
         }
 
-        // Record save event
+        // Record save event; a save ends the current batch
         this.contextBuffer.addSaveEvent(document.fileName);
+        this.changeBatcher.flush(document);
+        this.activityEmitter.fire();
         
         // Trigger context analysis
         await this.analyzeChangesOnSave(document.fileName);
     }
 
+    private onTrackingScopeChange(): void {
+        const isTracking = this.trackingScope.isTracking;
+        const mode = this.trackingScope.mode;
+
+        if (isTracking !== this.batcherScope?.isTracking || mode !== this.batcherScope?.mode) {
+            // Edits made before tracking was turned off or paused are not sent
+            if (!isTracking) {
+                this.changeBatcher.discardAll();
+            }
+            // Restarting re-reads baselines, so edits made while out of scope
+            // never show up in a later diff
+            this.changeBatcher.stop();
+            if (isTracking) {
+                this.changeBatcher.start();
+            }
+            this.batcherScope = { isTracking, mode };
+        } else if (isTracking) {
+            // Filters or batch settings changed; pending batches are kept and
+            // only documents that may have come into scope get new baselines
+            this.changeBatcher.rebaseline();
+        }
+        this.activityEmitter.fire();
+    }
+
     private async onWorkspaceFolderChange(event: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
         if (!this.isActive) {
             return;
@@ -164,7 +222,8 @@ export class LiveContextStream {
     }
 
     private async updateContextPeriodically(): Promise<void> {
-        if (!this.isActive) {
+        // Turning tracking off or pausing it stops the context push too
+        if (!this.isActive || !this.trackingScope.isTracking) {
             return;
         }
 
@@ -172,20 +231,61 @@ export class LiveContextStream {
             // Periodic context sync with KnowledgeHub
             const context = await this.getLatestContext();
             
-            // Update KnowledgeHub with current context
-            // This keeps the AI system updated with latest development state
+            // Only what changed since the last sync goes upstream; the live
+            // channel carries it when open, HTTP otherwise
+            const delta = this.computeContextDelta(context);
+            if (delta) {
+                await this.knowledgeHub.pushLiveContext(delta);
+            }
             
         } catch (error) {
             console.error('Failed to update context periodically:', error);
         }
     }
 
+    private computeContextDelta(context: LiveContext): LiveContextDelta | undefined {
+        const previous = this.lastSyncedContext;
+        const delta: LiveContextDelta = { since: this.lastSyncedAt };
+
+        const newChanges = context.recentChanges.filter(change => change.timestamp > this.lastSyncedAt);
+        if (newChanges.length > 0) {
+            delta.changes = newChanges.map(change => ({
+                file: change.file,
+                language: change.language,
+                timestamp: change.timestamp,
+                changeCount: change.changes.length
+            }));
+        }
+
+        if (context.currentFocus !== previous?.currentFocus) {
+            delta.currentFocus = context.currentFocus;
+        }
+
+        if (JSON.stringify(context.activePatterns) !== JSON.stringify(previous?.activePatterns)) {
+            delta.activePatterns = context.activePatterns;
+        }
+
+        if (JSON.stringify(context.projectState) !== JSON.stringify(previous?.projectState)) {
+            delta.projectState = context.projectState;
+        }
+
+        this.lastSyncedAt = Date.now();
+        this.lastSyncedContext = context;
+
+        return Object.keys(delta).length > 1 ? delta : undefined;
+    }
+
     private async getCurrentFocus(): Promise<string> {
         const activeEditor = vscode.window.activeTextEditor;
         if (!activeEditor) {
             return 'No active file';
         }
 
+        // Files outside the tracking scope or privacy settings are not named
+        if (!this.trackingScope.shouldTrack(activeEditor.document) || this.knowledgeHub.isExcluded(activeEditor.document.fileName)) {
+            return '';
+        }
+
         const fileName = activeEditor.document.fileName;
         const language = activeEditor.document.languageId;
         const lineCount = activeEditor.document.lineCount;
@@ -194,14 +294,16 @@ export class LiveContextStream {
     }
 
     private async getProjectState(): Promise<any> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const workspaceFolder = resolveWorkspaceFolder();
         if (!workspaceFolder) {
             return { state: 'no-workspace' };
         }
 
+        // The project the developer is in right now; other folders have their own sessions
         return {
             name: workspaceFolder.name,
             path: workspaceFolder.uri.fsPath,
+            workspaceFolders: vscode.workspace.workspaceFolders?.length ?? 0,
             openFiles: vscode.workspace.textDocuments.length,
             languages: this.getActiveLanguages(),
             recentActivity: this.contextBuffer.getActivitySummary()
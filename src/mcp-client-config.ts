@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveWorkspaceFolder } from './workspace-resolver';
+
+export interface McpAgent {
+    id: string;
+    label: string;
+    configPath: string;
+    // Top-level key the agent reads servers from
+    serversKey: 'mcpServers' | 'servers';
+    extraFields?: Record<string, unknown>;
+}
+
+interface McpServerEntry {
+    type?: string;
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+    [key: string]: unknown;
+}
+
+const SERVER_NAME = 'knowledgehub';
+
+export class McpClientConfigWriter {
+    private context: vscode.ExtensionContext;
+    private socketPath: string;
+
+    constructor(context: vscode.ExtensionContext, socketPath: string) {
+        this.context = context;
+        this.socketPath = socketPath;
+    }
+
+    /**
+     * Lets the user pick which detected agents to configure and merges the
+     * KnowledgeHub server into each agent's existing MCP configuration.
+     */
+    async writeInteractive(): Promise<void> {
+        const agents = this.detectAgents();
+        if (agents.length === 0) {
+            vscode.window.showWarningMessage('No MCP-capable agents detected. Open a workspace folder to write a project configuration.');
+            return;
+        }
+
+        const picks = await vscode.window.showQuickPick(
+            agents.map(agent => ({ label: agent.label, description: agent.configPath, picked: true, agent })),
+            { title: 'Write KnowledgeHub MCP configuration', canPickMany: true, ignoreFocusOut: true }
+        );
+        if (!picks || picks.length === 0) {
+            return;
+        }
+
+        const written: string[] = [];
+        for (const pick of picks) {
+            try {
+                await this.writeConfig(pick.agent);
+                written.push(pick.agent.label);
+            } catch (error) {
+                const action = await vscode.window.showErrorMessage(
+                    `Could not update ${pick.agent.configPath}: ${error}`,
+                    'Copy Configuration'
+                );
+                if (action === 'Copy Configuration') {
+                    await vscode.env.clipboard.writeText(JSON.stringify({
+                        [pick.agent.serversKey]: { [SERVER_NAME]: this.createServerEntry(pick.agent) }
+                    }, null, 2));
+                }
+            }
+        }
+
+        if (written.length > 0) {
+            vscode.window.showInformationMessage(`KnowledgeHub MCP server configured for ${written.join(', ')}`);
+        }
+    }
+
+    detectAgents(): McpAgent[] {
+        const agents: McpAgent[] = [];
+        const workspaceRoot = resolveWorkspaceFolder()?.uri.fsPath;
+
+        // Claude Code runs from a terminal, so look for its extension or its home directory
+        const hasClaudeCode = vscode.extensions.getExtension('anthropic.claude-code') !== undefined
+            || fs.existsSync(path.join(os.homedir(), '.claude'));
+        if (hasClaudeCode && workspaceRoot) {
+            agents.push({
+                id: 'claude-code',
+                label: 'Claude Code',
+                configPath: path.join(workspaceRoot, '.mcp.json'),
+                serversKey: 'mcpServers'
+            });
+        }
+
+        // Cline keeps its MCP settings in its own global storage, next to ours
+        if (vscode.extensions.getExtension('saoudrizwan.claude-dev')) {
+            const globalStorageRoot = path.dirname(this.context.globalStorageUri.fsPath);
+            agents.push({
+                id: 'cline',
+                label: 'Cline',
+                configPath: path.join(globalStorageRoot, 'saoudrizwan.claude-dev', 'settings', 'cline_mcp_settings.json'),
+                serversKey: 'mcpServers',
+                extraFields: { disabled: false }
+            });
+        }
+
+        if (workspaceRoot) {
+            agents.push({
+                id: 'vscode',
+                label: 'VS Code (agent mode)',
+                configPath: path.join(workspaceRoot, '.vscode', 'mcp.json'),
+                serversKey: 'servers',
+                extraFields: { type: 'stdio' }
+            });
+        }
+
+        return agents;
+    }
+
+    private async writeConfig(agent: McpAgent): Promise<void> {
+        let config: any = {};
+        try {
+            const existing = await fs.promises.readFile(agent.configPath, 'utf8');
+            if (existing.trim()) {
+                config = JSON.parse(existing);
+            }
+        } catch (error: any) {
+            // A missing file is fine; anything else (e.g. comments we cannot parse) must not be overwritten
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        config[agent.serversKey] = {
+            ...(config[agent.serversKey] || {}),
+            [SERVER_NAME]: this.createServerEntry(agent)
+        };
+
+        await fs.promises.mkdir(path.dirname(agent.configPath), { recursive: true });
+        await fs.promises.writeFile(agent.configPath, JSON.stringify(config, null, 2) + '\n', 'utf8');
+    }
+
+    private createServerEntry(agent: McpAgent): McpServerEntry {
+        return {
+            ...agent.extraFields,
+            // The extension host binary doubles as Node, so agents need no separate install
+            command: process.execPath,
+            args: [this.context.asAbsolutePath(path.join('out', 'mcp-stdio-bridge.js')), this.socketPath],
+            env: { ELECTRON_RUN_AS_NODE: '1' }
+        };
+    }
+}
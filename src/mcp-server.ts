@@ -0,0 +1,421 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { KnowledgeHubClient, Memory } from './knowledgehub-client';
+import { parseConfidence } from './commit-capture';
+import { resolveWorkspaceFolder } from './workspace-resolver';
+
+const PROTOCOL_VERSION = '2024-11-05';
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    id?: string | number;
+    method: string;
+    params?: any;
+}
+
+interface McpTool {
+    name: string;
+    description: string;
+    inputSchema: object;
+    call: (args: any) => Promise<string>;
+}
+
+class McpError extends Error {
+    constructor(readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Serves the Model Context Protocol on a local socket (a named pipe on
+ * Windows). Agents that only speak stdio connect through mcp-stdio-bridge.
+ * Messages are newline-delimited JSON-RPC, the same framing MCP uses on stdio.
+ */
+export class KnowledgeHubMcpServer {
+    private knowledgeHub: KnowledgeHubClient;
+    private outputChannel: vscode.OutputChannel;
+    private server?: net.Server;
+    private sockets: Set<net.Socket> = new Set();
+    private tools: McpTool[];
+    readonly socketPath: string;
+
+    constructor(knowledgeHub: KnowledgeHubClient, outputChannel: vscode.OutputChannel) {
+        this.knowledgeHub = knowledgeHub;
+        this.outputChannel = outputChannel;
+        this.socketPath = KnowledgeHubMcpServer.getSocketPath();
+        this.tools = this.createTools();
+    }
+
+    /**
+     * One socket per workspace, so configuration written for an agent stays
+     * valid across VS Code restarts.
+     */
+    static getSocketPath(): string {
+        // A multi-root workspace is identified by its .code-workspace file
+        const workspaceKey = vscode.workspace.workspaceFile?.fsPath
+            || resolveWorkspaceFolder()?.uri.fsPath
+            || 'no-workspace';
+        const hash = createHash('sha1').update(workspaceKey).digest('hex').slice(0, 12);
+        return process.platform === 'win32'
+            ? `\\\\.\\pipe\\knowledgehub-mcp-${hash}`
+            : path.join(os.tmpdir(), `knowledgehub-mcp-${hash}.sock`);
+    }
+
+    get isRunning(): boolean {
+        return this.server?.listening ?? false;
+    }
+
+    async start(): Promise<void> {
+        if (this.server) {
+            return;
+        }
+
+        if (process.platform !== 'win32') {
+            await this.removeStaleSocket();
+        }
+
+        const server = net.createServer(socket => this.handleConnection(socket));
+        this.server = server;
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.socketPath, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        }).catch(error => {
+            this.server = undefined;
+            throw new Error(`Failed to start MCP server: ${error}`);
+        });
+
+        if (process.platform !== 'win32') {
+            await fs.promises.chmod(this.socketPath, 0o600);
+        }
+
+        this.outputChannel.appendLine(`🔌 MCP server listening on ${this.socketPath}`);
+    }
+
+    stop(): void {
+        this.sockets.forEach(socket => socket.destroy());
+        this.sockets.clear();
+        this.server?.close();
+        this.server = undefined;
+    }
+
+    dispose(): void {
+        this.stop();
+    }
+
+    /**
+     * A previous window that crashed leaves its socket file behind. A socket
+     * that still accepts connections belongs to another window of the same
+     * workspace and is left alone.
+     */
+    private async removeStaleSocket(): Promise<void> {
+        const live = await new Promise<boolean>((resolve, reject) => {
+            const probe = net.connect(this.socketPath);
+            probe.once('connect', () => {
+                probe.destroy();
+                resolve(true);
+            });
+            probe.once('error', (error: NodeJS.ErrnoException) => {
+                if (error.code === 'ECONNREFUSED' || error.code === 'ENOENT') {
+                    resolve(false);
+                } else {
+                    reject(new Error(`Failed to start MCP server: ${error}`));
+                }
+            });
+        });
+
+        if (live) {
+            throw new Error(`Failed to start MCP server: ${this.socketPath} is already served by another window`);
+        }
+        await fs.promises.rm(this.socketPath, { force: true });
+    }
+
+    private handleConnection(socket: net.Socket): void {
+        this.sockets.add(socket);
+        this.outputChannel.appendLine('🤝 MCP client connected');
+
+        let buffer = '';
+        socket.setEncoding('utf8');
+        socket.on('data', (chunk: string) => {
+            buffer += chunk;
+
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) >= 0) {
+                const line = buffer.slice(0, newline).trim();
+                buffer = buffer.slice(newline + 1);
+                if (Buffer.byteLength(line) > MAX_MESSAGE_BYTES) {
+                    this.rejectOversizedMessage(socket);
+                    return;
+                }
+                if (line) {
+                    this.handleLine(socket, line);
+                }
+            }
+
+            // The unfinished message is already over the limit
+            if (Buffer.byteLength(buffer) > MAX_MESSAGE_BYTES) {
+                this.rejectOversizedMessage(socket);
+            }
+        });
+        socket.on('close', () => {
+            this.sockets.delete(socket);
+            this.outputChannel.appendLine('👋 MCP client disconnected');
+        });
+        socket.on('error', error => this.outputChannel.appendLine(`MCP connection error: ${error}`));
+    }
+
+    private rejectOversizedMessage(socket: net.Socket): void {
+        this.outputChannel.appendLine('⚠️ MCP message too large, closing connection');
+        socket.destroy();
+    }
+
+    private async handleLine(socket: net.Socket, line: string): Promise<void> {
+        let message: JsonRpcRequest;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            this.send(socket, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+            return;
+        }
+
+        // Notifications (no id) need no reply
+        if (message.id === undefined) {
+            return;
+        }
+
+        try {
+            const result = await this.dispatch(message.method, message.params || {});
+            this.send(socket, { jsonrpc: '2.0', id: message.id, result });
+        } catch (error) {
+            const code = error instanceof McpError ? error.code : -32603;
+            this.send(socket, { jsonrpc: '2.0', id: message.id, error: { code, message: String(error instanceof Error ? error.message : error) } });
+        }
+    }
+
+    private async dispatch(method: string, params: any): Promise<any> {
+        switch (method) {
+            case 'initialize':
+                return {
+                    protocolVersion: PROTOCOL_VERSION,
+                    capabilities: { tools: {}, resources: {} },
+                    serverInfo: { name: 'knowledgehub', version: '1.0.0' }
+                };
+
+            case 'ping':
+                return {};
+
+            case 'tools/list':
+                return {
+                    tools: this.tools.map(tool => ({
+                        name: tool.name,
+                        description: tool.description,
+                        inputSchema: tool.inputSchema
+                    }))
+                };
+
+            case 'tools/call': {
+                const tool = this.tools.find(candidate => candidate.name === params.name);
+                if (!tool) {
+                    throw new McpError(-32602, `Unknown tool: ${params.name}`);
+                }
+                try {
+                    const text = await tool.call(params.arguments || {});
+                    return { content: [{ type: 'text', text }] };
+                } catch (error) {
+                    // Tool failures are reported to the model, not as protocol errors
+                    return { content: [{ type: 'text', text: String(error) }], isError: true };
+                }
+            }
+
+            case 'resources/list':
+                return {
+                    resources: [
+                        { uri: 'knowledgehub://memories/recent', name: 'Recent memories', mimeType: 'application/json' },
+                        { uri: 'knowledgehub://context/enhanced', name: 'Enhanced context for the active editor', mimeType: 'application/json' },
+                        { uri: 'knowledgehub://project/analysis', name: 'Project analysis', mimeType: 'application/json' },
+                        { uri: 'knowledgehub://session', name: 'Current AI session', mimeType: 'application/json' }
+                    ]
+                };
+
+            case 'resources/templates/list':
+                return {
+                    resourceTemplates: [
+                        { uriTemplate: 'knowledgehub://memory/{id}', name: 'Memory by id', mimeType: 'application/json' }
+                    ]
+                };
+
+            case 'resources/read': {
+                const data = await this.readResource(String(params.uri));
+                return {
+                    contents: [{ uri: params.uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+                };
+            }
+
+            default:
+                throw new McpError(-32601, `Method not found: ${method}`);
+        }
+    }
+
+    private async readResource(uri: string): Promise<any> {
+        if (uri === 'knowledgehub://memories/recent') {
+            return this.knowledgeHub.getRecentMemories(25);
+        }
+        if (uri === 'knowledgehub://context/enhanced') {
+            return this.knowledgeHub.getEnhancedContext({
+                query: vscode.window.activeTextEditor?.document.fileName || 'project overview',
+                currentFile: vscode.window.activeTextEditor?.document.fileName,
+                workspaceRoot: resolveWorkspaceFolder()?.uri.fsPath
+            });
+        }
+        if (uri === 'knowledgehub://project/analysis') {
+            return this.knowledgeHub.analyzeProject(this.requireWorkspaceRoot());
+        }
+        if (uri === 'knowledgehub://session') {
+            return this.knowledgeHub.getSessionInfo() ?? null;
+        }
+
+        const memoryMatch = /^knowledgehub:\/\/memory\/(.+)$/.exec(uri);
+        if (memoryMatch) {
+            return this.knowledgeHub.getMemory(decodeURIComponent(memoryMatch[1]));
+        }
+
+        throw new McpError(-32002, `Resource not found: ${uri}`);
+    }
+
+    private createTools(): McpTool[] {
+        return [
+            {
+                name: 'search_memories',
+                description: 'Search the project\'s KnowledgeHub memory: saved code, decisions, patterns, errors and notes from earlier sessions.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'Free-text search query' },
+                        types: {
+                            type: 'array',
+                            items: { type: 'string', enum: ['code', 'decision', 'pattern', 'error', 'note'] },
+                            description: 'Only return memories of these types'
+                        },
+                        limit: { type: 'number', description: 'Maximum number of results (default 10, max 50)' }
+                    },
+                    required: ['query']
+                },
+                call: async args => {
+                    const result = await this.knowledgeHub.searchMemories({
+                        text: args.query,
+                        types: args.types,
+                        limit: Math.min(args.limit ?? 10, 50)
+                    });
+                    return result.memories.length > 0
+                        ? result.memories.map(memory => this.formatMemory(memory)).join('\n\n')
+                        : `No memories match "${args.query}".`;
+                }
+            },
+            {
+                name: 'get_memory',
+                description: 'Get the full content of a KnowledgeHub memory by id.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', description: 'Memory id' }
+                    },
+                    required: ['id']
+                },
+                call: async args => this.formatMemory(await this.knowledgeHub.getMemory(args.id))
+            },
+            {
+                name: 'get_enhanced_context',
+                description: 'Get project summary, relevant decisions, patterns and suggestions for a query or file.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'What the context is needed for' },
+                        file: { type: 'string', description: 'Absolute path of the file being worked on' }
+                    },
+                    required: ['query']
+                },
+                call: async args => {
+                    const context = await this.knowledgeHub.getEnhancedContext({
+                        query: args.query,
+                        currentFile: args.file || vscode.window.activeTextEditor?.document.fileName,
+                        workspaceRoot: resolveWorkspaceFolder(args.file)?.uri.fsPath
+                    });
+                    return JSON.stringify(context, null, 2);
+                }
+            },
+            {
+                name: 'analyze_project',
+                description: 'Analyze the workspace: project type, technologies, patterns, complexity and suggestions.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        workspacePath: { type: 'string', description: 'Folder to analyze; defaults to the folder of the active editor' }
+                    }
+                },
+                call: async args => {
+                    const analysis = await this.knowledgeHub.analyzeProject(args.workspacePath || this.requireWorkspaceRoot());
+                    return JSON.stringify(analysis, null, 2);
+                }
+            },
+            {
+                name: 'record_decision',
+                description: 'Record an architectural or design decision so later sessions know what was chosen and why.',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        description: { type: 'string', description: 'What was decided' },
+                        reasoning: { type: 'string', description: 'Why this option was chosen' },
+                        alternatives: { type: 'array', items: { type: 'string' }, description: 'Options that were rejected' },
+                        confidence: { type: ['number', 'string'], description: 'Confidence from 0 to 1, or a percentage such as 85%' }
+                    },
+                    required: ['description', 'reasoning']
+                },
+                call: async args => {
+                    // Read like commit and ADR confidences, so 0.85, 85 and "85%" all work
+                    const confidence = args.confidence === undefined ? 0.8 : parseConfidence(String(args.confidence));
+                    if (confidence === undefined) {
+                        throw new Error(`Invalid confidence: ${args.confidence}`);
+                    }
+
+                    // A rejected decision throws and is returned as a tool error
+                    const status = await this.knowledgeHub.recordDecision({
+                        description: args.description,
+                        reasoning: args.reasoning,
+                        alternatives: args.alternatives || [],
+                        confidence
+                    });
+                    return status === 'queued'
+                        ? `KnowledgeHub is unreachable; the decision was queued and will be recorded when it reconnects: ${args.description}`
+                        : `Decision recorded: ${args.description}`;
+                }
+            }
+        ];
+    }
+
+    private requireWorkspaceRoot(): string {
+        const workspaceRoot = resolveWorkspaceFolder()?.uri.fsPath;
+        if (!workspaceRoot) {
+            throw new McpError(-32602, 'No workspace folder is open');
+        }
+        return workspaceRoot;
+    }
+
+    private formatMemory(memory: Memory): string {
+        const tags = memory.tags && memory.tags.length > 0 ? ` [${memory.tags.join(', ')}]` : '';
+        return `### ${memory.title} (${memory.type}, id ${memory.id})${tags}\n${memory.content || memory.summary}`;
+    }
+
+    private send(socket: net.Socket, message: object): void {
+        if (!socket.destroyed) {
+            socket.write(JSON.stringify(message) + '\n');
+        }
+    }
+}
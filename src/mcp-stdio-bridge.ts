@@ -0,0 +1,30 @@
+/**
+ * Connects an MCP client that launches servers over stdio to the
+ * KnowledgeHub MCP socket opened by the extension. Runs outside VS Code,
+ * so it must not import 'vscode'.
+ *
+ * Usage: node mcp-stdio-bridge.js <socket path>
+ */
+import * as net from 'net';
+
+const socketPath = process.argv[2] || process.env.KNOWLEDGEHUB_MCP_SOCKET;
+
+if (!socketPath) {
+    process.stderr.write('KnowledgeHub MCP bridge: no socket path given\n');
+    process.exit(1);
+}
+
+const socket = net.connect(socketPath);
+
+socket.on('connect', () => {
+    process.stdin.pipe(socket);
+    socket.pipe(process.stdout);
+});
+
+socket.on('error', error => {
+    process.stderr.write(`KnowledgeHub MCP bridge: cannot reach ${socketPath} (${error.message}). Is VS Code open with KnowledgeHub enabled?\n`);
+    process.exit(1);
+});
+
+socket.on('close', () => process.exit(0));
+process.stdin.on('end', () => socket.end());
@@ -0,0 +1,362 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient, Memory, MemorySearchQuery } from './knowledgehub-client';
+import { MemoryCapture } from './memory-capture';
+
+export const MEMORY_SCHEME = 'knowledgehub-memory';
+
+const PAGE_SIZE = 20;
+const DEFAULT_MEMORY_TYPES = ['decision', 'pattern', 'error', 'code', 'conversation', 'note'];
+
+interface MemoryPickItem extends vscode.QuickPickItem {
+    memory?: Memory;
+    isLoadMore?: boolean;
+}
+
+/**
+ * Serves memories as readonly markdown documents under knowledgehub-memory:/<id>/<title>.md
+ */
+export class MemoryDocumentProvider implements vscode.TextDocumentContentProvider {
+    private knowledgeHub: KnowledgeHubClient;
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(knowledgeHub: KnowledgeHubClient) {
+        this.knowledgeHub = knowledgeHub;
+    }
+
+    static uriFor(memory: Memory): vscode.Uri {
+        const safeTitle = (memory.title || 'memory').replace(/[\\/:*?"<>|]/g, '-').slice(0, 60);
+        return vscode.Uri.from({
+            scheme: MEMORY_SCHEME,
+            path: `/${encodeURIComponent(memory.id)}/${safeTitle}.md`
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const id = decodeURIComponent(uri.path.split('/')[1] || '');
+        try {
+            const memory = await this.knowledgeHub.getMemory(id);
+            return MemoryDocumentProvider.render(memory);
+        } catch (error) {
+            return `# Memory unavailable\n\n${error}\n`;
+        }
+    }
+
+    refresh(uri: vscode.Uri): void {
+        this.changeEmitter.fire(uri);
+    }
+
+    static render(memory: Memory): string {
+        const lines = [
+            `# ${memory.title}`,
+            '',
+            `- **Type**: ${memory.type}`,
+            `- **Created**: ${memory.timestamp}`,
+            `- **Relevance**: ${memory.relevance ?? 'n/a'}`,
+            `- **Pinned**: ${memory.pinned ? 'yes' : 'no'}`
+        ];
+
+        if (memory.tags && memory.tags.length > 0) {
+            lines.push(`- **Tags**: ${memory.tags.join(', ')}`);
+        }
+
+        if (memory.source) {
+            const range = memory.source.startLine
+                ? `:${memory.source.startLine}${memory.source.endLine && memory.source.endLine !== memory.source.startLine ? `-${memory.source.endLine}` : ''}`
+                : '';
+            const commit = memory.source.commit ? ` @ ${memory.source.commit.slice(0, 8)}` : '';
+            const branch = memory.source.branch ? ` (${memory.source.branch})` : '';
+            lines.push(`- **Source**: \`${memory.source.file}${range}\`${commit}${branch}`);
+        }
+
+        lines.push('', '## Summary', '', memory.summary || '_No summary_');
+
+        if (memory.content) {
+            lines.push('', '## Content', '', memory.content);
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+export class MemoryBrowser {
+    private knowledgeHub: KnowledgeHubClient;
+    private memoryCapture: MemoryCapture;
+    private query: MemorySearchQuery = { limit: PAGE_SIZE, offset: 0 };
+    private loaded: Memory[] = [];
+    private total: number = 0;
+    private knownTypes: Set<string> = new Set(DEFAULT_MEMORY_TYPES);
+    private searchTimer?: NodeJS.Timeout;
+    private requestId: number = 0;
+    private isShowingNestedInput: boolean = false;
+
+    private static readonly pinButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('pin'), tooltip: 'Pin / Unpin' };
+    private static readonly editButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Edit' };
+    private static readonly insertButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('insert'), tooltip: 'Insert into Chat' };
+    private static readonly deleteButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: 'Delete' };
+    private static readonly typeFilterButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('filter'), tooltip: 'Filter by Type' };
+    private static readonly dateFilterButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('calendar'), tooltip: 'Filter by Date' };
+    private static readonly clearFiltersButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('clear-all'), tooltip: 'Clear Filters' };
+
+    constructor(knowledgeHub: KnowledgeHubClient, memoryCapture: MemoryCapture) {
+        this.knowledgeHub = knowledgeHub;
+        this.memoryCapture = memoryCapture;
+    }
+
+    async show(): Promise<void> {
+        const quickPick = vscode.window.createQuickPick<MemoryPickItem>();
+        quickPick.placeholder = 'Search memories on the KnowledgeHub server';
+        quickPick.buttons = [MemoryBrowser.typeFilterButton, MemoryBrowser.dateFilterButton, MemoryBrowser.clearFiltersButton];
+
+        quickPick.onDidChangeValue(value => {
+            if (this.searchTimer) {
+                clearTimeout(this.searchTimer);
+            }
+            this.searchTimer = setTimeout(() => {
+                this.query = { ...this.query, text: value || undefined };
+                this.search(quickPick, false);
+            }, 300);
+        });
+
+        quickPick.onDidAccept(async () => {
+            const selected = quickPick.selectedItems[0];
+            if (!selected) {
+                return;
+            }
+            if (selected.isLoadMore) {
+                await this.search(quickPick, true);
+                return;
+            }
+            if (selected.memory) {
+                quickPick.hide();
+                await MemoryBrowser.openMemory(selected.memory);
+            }
+        });
+
+        quickPick.onDidTriggerButton(async button => {
+            if (button === MemoryBrowser.typeFilterButton) {
+                await this.withNestedInput(() => this.pickTypes());
+            } else if (button === MemoryBrowser.dateFilterButton) {
+                await this.withNestedInput(() => this.pickDateRange());
+            } else if (button === MemoryBrowser.clearFiltersButton) {
+                this.query = { text: this.query.text, limit: PAGE_SIZE, offset: 0 };
+            }
+            quickPick.show();
+            await this.search(quickPick, false);
+        });
+
+        quickPick.onDidTriggerItemButton(async event => {
+            const memory = event.item.memory;
+            if (!memory) {
+                return;
+            }
+
+            if (event.button === MemoryBrowser.pinButton) {
+                await this.togglePin(memory);
+                this.render(quickPick);
+            } else if (event.button === MemoryBrowser.editButton) {
+                await this.withNestedInput(() => this.memoryCapture.editMemory(memory));
+                quickPick.show();
+                await this.search(quickPick, false);
+            } else if (event.button === MemoryBrowser.insertButton) {
+                quickPick.hide();
+                await MemoryBrowser.insertIntoChat(memory);
+            } else if (event.button === MemoryBrowser.deleteButton) {
+                if (await this.withNestedInput(() => this.memoryCapture.deleteMemory(memory))) {
+                    this.loaded = this.loaded.filter(candidate => candidate.id !== memory.id);
+                    this.total = Math.max(0, this.total - 1);
+                    this.render(quickPick);
+                }
+                quickPick.show();
+            }
+        });
+
+        quickPick.onDidHide(() => {
+            // Filter pickers and confirmations temporarily replace this picker
+            if (this.isShowingNestedInput) {
+                return;
+            }
+            if (this.searchTimer) {
+                clearTimeout(this.searchTimer);
+            }
+            quickPick.dispose();
+        });
+
+        quickPick.show();
+        await this.search(quickPick, false);
+    }
+
+    static async openMemory(memory: Memory): Promise<void> {
+        // The .md path gives the document markdown highlighting
+        const doc = await vscode.workspace.openTextDocument(MemoryDocumentProvider.uriFor(memory));
+        await vscode.window.showTextDocument(doc, { preview: true });
+    }
+
+    static async insertIntoChat(memory: Memory): Promise<void> {
+        const text = `${memory.title}\n\n${memory.content || memory.summary}`;
+
+        // Prefer the chat input; fall back to the active editor, then the clipboard
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.open', { query: text, isPartialQuery: true });
+            return;
+        } catch {
+            // Chat is not available in this editor build
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        if (editor && editor.document.uri.scheme !== MEMORY_SCHEME) {
+            await editor.edit(builder => builder.replace(editor.selection, text));
+            return;
+        }
+
+        await vscode.env.clipboard.writeText(text);
+        vscode.window.showInformationMessage('Memory copied to clipboard');
+    }
+
+    private async withNestedInput<T>(action: () => Thenable<T>): Promise<T> {
+        this.isShowingNestedInput = true;
+        try {
+            return await action();
+        } finally {
+            this.isShowingNestedInput = false;
+        }
+    }
+
+    private async search(quickPick: vscode.QuickPick<MemoryPickItem>, append: boolean): Promise<void> {
+        const requestId = ++this.requestId;
+        const query: MemorySearchQuery = {
+            ...this.query,
+            offset: append ? this.loaded.length : 0
+        };
+
+        quickPick.busy = true;
+        try {
+            const result = await this.knowledgeHub.searchMemories(query);
+
+            // A newer search started while this one was in flight
+            if (requestId !== this.requestId) {
+                return;
+            }
+
+            this.loaded = append ? [...this.loaded, ...result.memories] : result.memories;
+            this.total = result.total;
+            result.memories.forEach(memory => this.knownTypes.add(memory.type));
+            this.render(quickPick);
+        } catch (error) {
+            if (requestId === this.requestId) {
+                quickPick.items = [{ label: '$(error) Search failed', detail: String(error), alwaysShow: true }];
+            }
+        } finally {
+            if (requestId === this.requestId) {
+                quickPick.busy = false;
+            }
+        }
+    }
+
+    private render(quickPick: vscode.QuickPick<MemoryPickItem>): void {
+        const items: MemoryPickItem[] = this.loaded.map(memory => ({
+            label: `${memory.pinned ? '$(pinned) ' : ''}${memory.title}`,
+            description: memory.type,
+            detail: `${memory.summary} · ${memory.timestamp}`,
+            memory,
+            // Results are already filtered by the server
+            alwaysShow: true,
+            buttons: [MemoryBrowser.pinButton, MemoryBrowser.editButton, MemoryBrowser.insertButton, MemoryBrowser.deleteButton]
+        }));
+
+        if (this.loaded.length < this.total) {
+            items.push({
+                label: `$(arrow-down) Load more (${this.loaded.length} of ${this.total})`,
+                isLoadMore: true,
+                alwaysShow: true
+            });
+        }
+
+        if (items.length === 0) {
+            items.push({ label: 'No memories match', alwaysShow: true });
+        }
+
+        quickPick.items = items;
+        quickPick.title = `KnowledgeHub Memories${this.describeFilters()}`;
+    }
+
+    private describeFilters(): string {
+        const filters: string[] = [];
+        if (this.query.types && this.query.types.length > 0) {
+            filters.push(this.query.types.join(', '));
+        }
+        if (this.query.from || this.query.to) {
+            filters.push(`${this.query.from?.slice(0, 10) || '…'} → ${this.query.to?.slice(0, 10) || 'now'}`);
+        }
+        return filters.length > 0 ? ` (${filters.join(' · ')})` : '';
+    }
+
+    private async pickTypes(): Promise<void> {
+        const selected = new Set(this.query.types || []);
+        const picks = await vscode.window.showQuickPick(
+            Array.from(this.knownTypes).sort().map(type => ({ label: type, picked: selected.has(type) })),
+            { title: 'Filter by memory type', canPickMany: true }
+        );
+        if (picks) {
+            this.query = { ...this.query, types: picks.map(pick => pick.label) };
+        }
+    }
+
+    private async pickDateRange(): Promise<void> {
+        const day = 24 * 60 * 60 * 1000;
+        const presets: (vscode.QuickPickItem & { days?: number; custom?: boolean })[] = [
+            { label: 'Any time' },
+            { label: 'Last 24 hours', days: 1 },
+            { label: 'Last 7 days', days: 7 },
+            { label: 'Last 30 days', days: 30 },
+            { label: 'Custom range…', custom: true }
+        ];
+
+        const pick = await vscode.window.showQuickPick(presets, { title: 'Filter by date' });
+        if (!pick) {
+            return;
+        }
+
+        if (pick.days) {
+            this.query = { ...this.query, from: new Date(Date.now() - pick.days * day).toISOString(), to: undefined };
+            return;
+        }
+
+        if (!pick.custom) {
+            this.query = { ...this.query, from: undefined, to: undefined };
+            return;
+        }
+
+        const range = await vscode.window.showInputBox({
+            title: 'Custom date range',
+            prompt: 'YYYY-MM-DD..YYYY-MM-DD (either side may be empty)',
+            validateInput: value => {
+                const [from, to] = value.split('..');
+                const invalid = [from, to].some(part => part && isNaN(Date.parse(part)));
+                return value.includes('..') && !invalid ? undefined : 'Use YYYY-MM-DD..YYYY-MM-DD';
+            }
+        });
+        if (range) {
+            const [from, to] = range.split('..');
+            this.query = {
+                ...this.query,
+                from: from ? new Date(from).toISOString() : undefined,
+                to: to ? new Date(`${to}T23:59:59.999Z`).toISOString() : undefined
+            };
+        }
+    }
+
+    private async togglePin(memory: Memory): Promise<void> {
+        try {
+            await this.knowledgeHub.setMemoryPinned(memory.id, !memory.pinned);
+            memory.pinned = !memory.pinned;
+        } catch (error) {
+            vscode.window.showErrorMessage(`${error}`);
+        }
+    }
+}
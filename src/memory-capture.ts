@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient, Memory, MemoryInput, MemorySource } from './knowledgehub-client';
+import { GitContextService } from './git-context';
+
+const MEMORY_TYPES: vscode.QuickPickItem[] = [
+    { label: 'code', detail: 'A snippet worth remembering' },
+    { label: 'decision', detail: 'An architectural or design choice' },
+    { label: 'pattern', detail: 'A recurring approach used in this project' },
+    { label: 'error', detail: 'A problem and how it was solved' },
+    { label: 'note', detail: 'Anything else' }
+];
+
+export class MemoryCapture {
+    private knowledgeHub: KnowledgeHubClient;
+    private gitContext: GitContextService;
+    private changeEmitter = new vscode.EventEmitter<Memory | undefined>();
+
+    readonly onDidChangeMemories = this.changeEmitter.event;
+
+    constructor(knowledgeHub: KnowledgeHubClient, gitContext: GitContextService) {
+        this.knowledgeHub = knowledgeHub;
+        this.gitContext = gitContext;
+    }
+
+    async saveSelection(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.selection.isEmpty) {
+            vscode.window.showWarningMessage('Select some code to save as a memory');
+            return;
+        }
+
+        const document = editor.document;
+        const selection = editor.selection;
+        const selectedText = document.getText(selection);
+        const firstLine = selectedText.trim().split('\n')[0].slice(0, 60);
+
+        const details = await this.promptForDetails({ title: firstLine, type: 'code' });
+        if (!details) {
+            return;
+        }
+
+        const content = '```' + document.languageId + '\n' + selectedText + '\n```';
+        await this.create({
+            ...details,
+            content,
+            source: this.getSource(document, selection)
+        });
+    }
+
+    async saveNote(): Promise<void> {
+        const note = await vscode.window.showInputBox({
+            title: 'Save Note as Memory',
+            prompt: 'What should KnowledgeHub remember?',
+            ignoreFocusOut: true,
+            validateInput: value => value.trim().length === 0 ? 'Note cannot be empty' : undefined
+        });
+        if (!note) {
+            return;
+        }
+
+        const details = await this.promptForDetails({ title: note.slice(0, 60), type: 'note' });
+        if (!details) {
+            return;
+        }
+
+        // Notes still point at the code that was open when they were written,
+        // unless that file is excluded from what gets sent
+        const editor = vscode.window.activeTextEditor;
+        const source = editor && editor.document.uri.scheme === 'file' && !this.knowledgeHub.isExcluded(editor.document.fileName)
+            ? this.getSource(editor.document, editor.selection)
+            : undefined;
+
+        await this.create({ ...details, content: note, source });
+    }
+
+    async editMemory(memory: Memory): Promise<void> {
+        const details = await this.promptForDetails({
+            title: memory.title,
+            type: memory.type,
+            tags: memory.tags
+        });
+        if (!details) {
+            return;
+        }
+
+        const summary = await vscode.window.showInputBox({
+            title: 'Memory summary',
+            prompt: 'Short summary shown in lists',
+            value: memory.summary,
+            ignoreFocusOut: true
+        });
+        if (summary === undefined) {
+            return;
+        }
+
+        try {
+            const updated = await this.knowledgeHub.updateMemory(memory.id, { ...details, summary });
+            this.changeEmitter.fire(updated);
+            vscode.window.showInformationMessage(`Memory "${details.title}" updated`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`${error}`);
+        }
+    }
+
+    async deleteMemory(memory: Memory): Promise<boolean> {
+        const confirmation = await vscode.window.showWarningMessage(
+            `Delete memory "${memory.title}"?`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirmation !== 'Delete') {
+            return false;
+        }
+
+        try {
+            await this.knowledgeHub.deleteMemory(memory.id);
+            this.changeEmitter.fire(undefined);
+            return true;
+        } catch (error) {
+            vscode.window.showErrorMessage(`${error}`);
+            return false;
+        }
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private async create(memory: MemoryInput): Promise<void> {
+        try {
+            const created = await this.knowledgeHub.createMemory(memory);
+            this.changeEmitter.fire(created);
+            vscode.window.showInformationMessage(`Saved memory "${memory.title}"`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`${error}`);
+        }
+    }
+
+    private async promptForDetails(defaults: {
+        title: string;
+        type: string;
+        tags?: string[];
+    }): Promise<{ title: string; type: string; tags: string[] } | undefined> {
+        const title = await vscode.window.showInputBox({
+            title: 'Memory (1/3)',
+            prompt: 'Title',
+            value: defaults.title,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim().length === 0 ? 'Title cannot be empty' : undefined
+        });
+        if (!title) {
+            return undefined;
+        }
+
+        const typeItems = MEMORY_TYPES.map(item => ({
+            ...item,
+            description: item.label === defaults.type ? 'current' : undefined
+        }));
+        const type = await vscode.window.showQuickPick(typeItems, {
+            title: 'Memory (2/3)',
+            placeHolder: 'Type',
+            ignoreFocusOut: true
+        });
+        if (!type) {
+            return undefined;
+        }
+
+        const tags = await vscode.window.showInputBox({
+            title: 'Memory (3/3)',
+            prompt: 'Tags (comma separated, optional)',
+            value: (defaults.tags || []).join(', '),
+            ignoreFocusOut: true
+        });
+        if (tags === undefined) {
+            return undefined;
+        }
+
+        return {
+            title: title.trim(),
+            type: type.label,
+            tags: tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)
+        };
+    }
+
+    private getSource(document: vscode.TextDocument, selection: vscode.Selection): MemorySource {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+        const repository = this.gitContext.getRepository(document.uri);
+
+        return {
+            file: workspaceFolder ? vscode.workspace.asRelativePath(document.uri, false) : document.fileName,
+            // Stored 1-based so they match what the editor shows
+            startLine: selection.start.line + 1,
+            endLine: selection.end.line + 1,
+            commit: repository?.state.HEAD?.commit,
+            // Same label commits and context requests use, including detached HEADs
+            branch: repository ? this.gitContext.getHeadLabel(document.uri) : undefined,
+            workspaceFolder: workspaceFolder?.uri.fsPath
+        };
+    }
+}
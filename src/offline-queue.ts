@@ -0,0 +1,265 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+
+export interface QueuedEvent {
+    id: string;
+    endpoint: string;
+    payload: any;
+    dedupeKey: string;
+    queuedAt: string;
+    attempts: number;
+}
+
+export interface OfflineQueueOptions {
+    maxEvents: number;
+    maxBytes: number;
+    maxAttempts: number;
+    initialBackoffMs: number;
+    maxBackoffMs: number;
+}
+
+// 'unreachable' means the request never reached the server (no response, or
+// an open circuit), so it does not use up one of the event's attempts
+export type QueueSendResult = 'sent' | 'retry' | 'unreachable' | 'drop';
+
+const DEFAULT_OPTIONS: OfflineQueueOptions = {
+    maxEvents: 1000,
+    maxBytes: 5 * 1024 * 1024,
+    maxAttempts: 5,
+    initialBackoffMs: 2000,
+    maxBackoffMs: 5 * 60 * 1000
+};
+
+const QUEUE_FILE = 'offline-queue.json';
+
+/**
+ * Events that could not be sent, persisted under the workspace's storage so
+ * windows never share (and overwrite) each other's queue. Without a storage
+ * location, as in a window with no folder open, the queue lives in memory.
+ */
+export class OfflineEventQueue {
+    private storageUri?: vscode.Uri;
+    private outputChannel: vscode.OutputChannel;
+    private options: OfflineQueueOptions;
+    private events: QueuedEvent[] = [];
+    private totalBytes: number = 0;
+    private isDraining: boolean = false;
+    private backoffMs: number;
+    private retryTimer?: NodeJS.Timeout;
+    private persistTimer?: NodeJS.Timeout;
+    private changeEmitter = new vscode.EventEmitter<number>();
+
+    readonly onDidChangePending = this.changeEmitter.event;
+
+    constructor(storageUri: vscode.Uri | undefined, outputChannel: vscode.OutputChannel, options: Partial<OfflineQueueOptions> = {}) {
+        this.storageUri = storageUri;
+        this.outputChannel = outputChannel;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.backoffMs = this.options.initialBackoffMs;
+    }
+
+    get pendingCount(): number {
+        return this.events.length;
+    }
+
+    async load(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        try {
+            const raw = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, QUEUE_FILE));
+            const parsed = JSON.parse(Buffer.from(raw).toString('utf8'));
+            this.events = Array.isArray(parsed) ? parsed : [];
+            this.totalBytes = this.events.reduce((sum, event) => sum + this.sizeOf(event), 0);
+            this.enforceCaps();
+            if (this.events.length > 0) {
+                this.outputChannel.appendLine(`📦 Loaded ${this.events.length} pending offline events`);
+            }
+        } catch {
+            // No queue file yet, or unreadable; start empty
+            this.events = [];
+            this.totalBytes = 0;
+        }
+        this.changeEmitter.fire(this.events.length);
+    }
+
+    enqueue(endpoint: string, payload: any, dedupeKey?: string): boolean {
+        const key = this.fingerprint(endpoint, dedupeKey ?? JSON.stringify(payload));
+        if (this.events.some(event => event.dedupeKey === key)) {
+            return false;
+        }
+
+        const event: QueuedEvent = {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            endpoint,
+            payload,
+            dedupeKey: key,
+            queuedAt: new Date().toISOString(),
+            attempts: 0
+        };
+        this.events.push(event);
+        this.totalBytes += this.sizeOf(event);
+
+        this.enforceCaps();
+        this.schedulePersist();
+        this.changeEmitter.fire(this.events.length);
+        return true;
+    }
+
+    getPendingSummary(): Record<string, number> {
+        const summary: Record<string, number> = {};
+        for (const event of this.events) {
+            summary[event.endpoint] = (summary[event.endpoint] || 0) + 1;
+        }
+        return summary;
+    }
+
+    /**
+     * Replays queued events oldest-first. Stops at the first event that should
+     * be retried and schedules another drain with exponential backoff.
+     */
+    async drain(send: (event: QueuedEvent) => Promise<QueueSendResult>): Promise<number> {
+        if (this.isDraining || this.events.length === 0) {
+            return 0;
+        }
+
+        this.isDraining = true;
+        this.clearRetryTimer();
+        let delivered = 0;
+
+        try {
+            while (this.events.length > 0) {
+                const event = this.events[0];
+                const result = await send(event);
+
+                if (result === 'sent') {
+                    this.removeOldest();
+                    delivered++;
+                    continue;
+                }
+
+                if (result === 'unreachable') {
+                    this.scheduleRetry(send);
+                    break;
+                }
+
+                event.attempts++;
+                if (result === 'drop' || event.attempts >= this.options.maxAttempts) {
+                    this.outputChannel.appendLine(`🗑️ Dropping offline event ${event.endpoint} after ${event.attempts} attempts`);
+                    this.removeOldest();
+                    continue;
+                }
+
+                this.scheduleRetry(send);
+                break;
+            }
+
+            if (this.events.length === 0) {
+                this.backoffMs = this.options.initialBackoffMs;
+            }
+        } finally {
+            this.isDraining = false;
+            this.schedulePersist();
+            this.changeEmitter.fire(this.events.length);
+        }
+
+        if (delivered > 0) {
+            this.outputChannel.appendLine(`📤 Replayed ${delivered} offline events (${this.events.length} pending)`);
+        }
+        return delivered;
+    }
+
+    async clear(): Promise<void> {
+        this.events = [];
+        this.totalBytes = 0;
+        this.clearRetryTimer();
+        await this.persist();
+        this.changeEmitter.fire(0);
+    }
+
+    async dispose(): Promise<void> {
+        this.clearRetryTimer();
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = undefined;
+            await this.persist();
+        }
+        this.changeEmitter.dispose();
+    }
+
+    private scheduleRetry(send: (event: QueuedEvent) => Promise<QueueSendResult>): void {
+        // Jitter keeps several windows from retrying in lockstep
+        const delay = Math.round(this.backoffMs / 2 + Math.random() * this.backoffMs / 2);
+        this.backoffMs = Math.min(this.backoffMs * 2, this.options.maxBackoffMs);
+
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = undefined;
+            this.drain(send).catch(error => {
+                this.outputChannel.appendLine(`Failed to replay offline events: ${error}`);
+            });
+        }, delay);
+    }
+
+    private clearRetryTimer(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = undefined;
+        }
+    }
+
+    private enforceCaps(): void {
+        // Drop the oldest events first when over either cap
+        let dropped = 0;
+        while (this.events.length > 0 &&
+            (this.events.length > this.options.maxEvents || this.totalBytes > this.options.maxBytes)) {
+            this.removeOldest();
+            dropped++;
+        }
+
+        if (dropped > 0) {
+            this.outputChannel.appendLine(`⚠️ Offline queue full, dropped ${dropped} oldest events`);
+        }
+    }
+
+    private removeOldest(): void {
+        const oldest = this.events.shift();
+        if (oldest) {
+            this.totalBytes -= this.sizeOf(oldest);
+        }
+    }
+
+    private sizeOf(event: QueuedEvent): number {
+        // Payloads never change once queued, so their size can be tracked incrementally
+        return Buffer.byteLength(JSON.stringify(event.payload)) + event.endpoint.length;
+    }
+
+    private schedulePersist(): void {
+        // Coalesce bursts of keystrokes into a single write
+        if (this.persistTimer) {
+            return;
+        }
+        this.persistTimer = setTimeout(() => {
+            this.persistTimer = undefined;
+            this.persist().catch(error => {
+                this.outputChannel.appendLine(`Failed to persist offline queue: ${error}`);
+            });
+        }, 500);
+    }
+
+    private async persist(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        await vscode.workspace.fs.createDirectory(this.storageUri);
+        await vscode.workspace.fs.writeFile(
+            vscode.Uri.joinPath(this.storageUri, QUEUE_FILE),
+            Buffer.from(JSON.stringify(this.events), 'utf8')
+        );
+    }
+
+    private fingerprint(endpoint: string, key: string): string {
+        return createHash('sha1').update(endpoint).update('\0').update(key).digest('hex');
+    }
+}
@@ -0,0 +1,296 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+export interface RedactionRule {
+    name: string;
+    pattern: string;
+    flags?: string;
+}
+
+export interface RedactorConfig {
+    excludeGlobs: string[];
+    respectGitignore: boolean;
+    detectHighEntropy: boolean;
+    entropyThreshold: number;
+    rules: RedactionRule[];
+}
+
+interface CompiledRule {
+    name: string;
+    regex: RegExp;
+    // Capture group holding the secret; the rest of the match is kept
+    group?: number;
+    // Further check on the captured value, for patterns that also match ordinary code
+    accept?: (secret: string) => boolean;
+}
+
+// Also matches prefixed names such as DB_PASSWORD
+const SECRET_NAME = '(?<![A-Za-z0-9])(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)\\w*["\']?\\s*[:=]\\s*';
+
+const BUILT_IN_RULES: CompiledRule[] = [
+    { name: 'private-key', regex: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g },
+    { name: 'aws-access-key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+    { name: 'github-token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+    { name: 'gitlab-token', regex: /\bglpat-[A-Za-z0-9_-]{20,}\b/g },
+    { name: 'slack-token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+    { name: 'stripe-key', regex: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+    { name: 'google-api-key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+    { name: 'openai-key', regex: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}\b/g },
+    { name: 'jwt', regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g },
+    { name: 'url-credentials', regex: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]+)@/gi, group: 1 },
+    // Quoted literals: password: "hunter22", apiKey = 'abc123...'
+    { name: 'secret-assignment', regex: new RegExp(SECRET_NAME + '(["\'`])([^\\s"\'`]{6,})\\1', 'gi'), group: 2 },
+    // Unquoted values as in .env and YAML files. Type annotations (password: string),
+    // calls (apiKey = config.get(...)) and member access (token = this.token) are code
+    {
+        name: 'secret-assignment',
+        // The lookahead makes the value atomic, so a call is not matched by backing off one character
+        regex: new RegExp(SECRET_NAME + '(?=([^\\s"\'`,;(){}<>]{6,}))\\1(?![(<])', 'gi'),
+        group: 1,
+        accept: value => /[0-9]/.test(value) && /[A-Za-z]/.test(value) && !/^[A-Za-z_$][\w$]*(?:\.[\w$]+)+$/.test(value)
+    }
+];
+
+// Values under these keys are identifiers we generate, not user content
+const SAFE_KEYS = new Set(['sessionId', 'id', 'timestamp', 'commit', 'dedupeKey', 'queuedAt']);
+// A payload object naming one of these files loses its content fields when the file is excluded
+const FILE_KEYS = ['file', 'currentFile', 'activeFile', 'fileName', 'filePath'];
+const CONTENT_KEYS = ['changes', 'content', 'selectedText', 'text', 'diff', 'code', 'recentEdits', 'stack', 'context', 'prompt', 'prefix', 'suffix', 'query'];
+// Paths score like secrets, so values under these keys skip the entropy check
+const PATH_KEYS = new Set([...FILE_KEYS, 'workspaceRoot', 'workspaceFolder', 'repositoryRoot', 'cwd']);
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/_=-]{24,}/g;
+const MIN_ENTROPY_LENGTH = 24;
+
+/**
+ * Scrubs secrets from everything KnowledgeHubClient sends: known credential
+ * formats, high-entropy tokens and user rules, plus the contents of files
+ * excluded by .gitignore or knowledgehub.privacy.excludeGlobs. Payloads are
+ * copied, never modified in place.
+ */
+export class PayloadRedactor {
+    private outputChannel: vscode.OutputChannel;
+    private config: RedactorConfig = {
+        excludeGlobs: [],
+        respectGitignore: true,
+        detectHighEntropy: true,
+        entropyThreshold: 4.2,
+        rules: []
+    };
+    private userRules: CompiledRule[] = [];
+    private excludeMatcher: Ignore = ignore();
+    // Keyed by the directory holding each .gitignore
+    private gitignores: Map<string, Ignore> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    configure(config: RedactorConfig): void {
+        this.config = config;
+        this.excludeMatcher = ignore().add(config.excludeGlobs);
+        this.userRules = [];
+
+        for (const rule of config.rules) {
+            try {
+                const flags = rule.flags || '';
+                this.userRules.push({ name: rule.name, regex: new RegExp(rule.pattern, flags.includes('g') ? flags : flags + 'g') });
+            } catch (error) {
+                this.outputChannel.appendLine(`⚠️ Ignoring redaction rule "${rule.name}": ${error}`);
+            }
+        }
+    }
+
+    async loadGitignores(): Promise<void> {
+        const gitignores: Map<string, Ignore> = new Map();
+        const files = await vscode.workspace.findFiles('**/.gitignore', '**/node_modules/**', 200);
+
+        for (const file of files) {
+            try {
+                const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+                gitignores.set(path.dirname(file.fsPath), ignore().add(content));
+            } catch (error) {
+                this.outputChannel.appendLine(`⚠️ Failed to read ${file.fsPath}: ${error}`);
+            }
+        }
+
+        this.gitignores = gitignores;
+    }
+
+    watchGitignores(): void {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/.gitignore');
+        const reload = () => this.loadGitignores();
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload)
+        );
+    }
+
+    /**
+     * Relative paths are resolved against baseDirectory, or without one
+     * against every workspace folder, since memory sources are stored
+     * relative to their folder.
+     */
+    isExcluded(filePath: string | undefined, baseDirectory?: string): boolean {
+        if (!filePath) {
+            return false;
+        }
+        if (!path.isAbsolute(filePath)) {
+            const bases = baseDirectory ? [baseDirectory] : (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+            return bases.some(base => path.isAbsolute(base) && this.isExcluded(path.join(base, filePath)));
+        }
+
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        const relative = (folder ? path.relative(folder.uri.fsPath, filePath) : path.basename(filePath)).split(path.sep).join('/');
+        if (relative && !relative.startsWith('..') && this.excludeMatcher.ignores(relative)) {
+            return true;
+        }
+
+        if (!this.config.respectGitignore) {
+            return false;
+        }
+
+        for (const [directory, matcher] of this.gitignores) {
+            const fromIgnoreFile = path.relative(directory, filePath);
+            if (!fromIgnoreFile || fromIgnoreFile.startsWith('..') || path.isAbsolute(fromIgnoreFile)) {
+                continue;
+            }
+            if (matcher.ignores(fromIgnoreFile.split(path.sep).join('/'))) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Returns a redacted deep copy of the payload. The endpoint only labels
+     * the log lines; secret values themselves are never logged.
+     */
+    redact<T>(payload: T, endpoint: string): T {
+        if (payload === undefined || payload === null) {
+            return payload;
+        }
+
+        // Normalize to what goes over the wire (vscode.Range and friends serialize via toJSON)
+        const copy = JSON.parse(JSON.stringify(payload));
+        return this.walk(copy, endpoint, '$');
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private walk(value: any, endpoint: string, location: string, isPath: boolean = false): any {
+        if (typeof value === 'string') {
+            return this.redactString(value, endpoint, location, isPath);
+        }
+
+        if (Array.isArray(value)) {
+            return value
+                .filter((item, index) => {
+                    // Only absolute paths; a relative-looking tag is not a file
+                    if (typeof item === 'string' && path.isAbsolute(item) && this.isExcluded(item)) {
+                        this.log('excluded-file', endpoint, `${location}[${index}]`);
+                        return false;
+                    }
+                    return true;
+                })
+                .map((item, index) => this.walk(item, endpoint, `${location}[${index}]`, isPath));
+        }
+
+        if (value && typeof value === 'object') {
+            const excludedFile = this.namesExcludedFile(value);
+
+            for (const key of Object.keys(value)) {
+                if (SAFE_KEYS.has(key)) {
+                    continue;
+                }
+                if (excludedFile && CONTENT_KEYS.includes(key)) {
+                    value[key] = '[excluded]';
+                    this.log('excluded-file', endpoint, `${location}.${key}`);
+                    continue;
+                }
+                value[key] = this.walk(value[key], endpoint, `${location}.${key}`, PATH_KEYS.has(key));
+            }
+        }
+
+        return value;
+    }
+
+    private namesExcludedFile(value: any): boolean {
+        const base = typeof value.workspaceFolder === 'string' ? value.workspaceFolder : undefined;
+        if (FILE_KEYS.some(key => typeof value[key] === 'string' && this.isExcluded(value[key], base))) {
+            return true;
+        }
+
+        // Memories keep their file in a nested source object, next to the content
+        const source = value.source;
+        return !!source && typeof source === 'object' && typeof source.file === 'string'
+            && this.isExcluded(source.file, typeof source.workspaceFolder === 'string' ? source.workspaceFolder : undefined);
+    }
+
+    private redactString(text: string, endpoint: string, location: string, isPath: boolean): string {
+        let result = text;
+
+        for (const rule of [...BUILT_IN_RULES, ...this.userRules]) {
+            rule.regex.lastIndex = 0;
+            result = result.replace(rule.regex, (match: string, ...groups: any[]) => {
+                const secret = rule.group ? groups[rule.group - 1] : match;
+                if (typeof secret !== 'string' || secret.startsWith('[REDACTED') || (rule.accept && !rule.accept(secret))) {
+                    return match;
+                }
+                this.log(rule.name, endpoint, location);
+                return match.replace(secret, `[REDACTED:${rule.name}]`);
+            });
+        }
+
+        if (this.config.detectHighEntropy && !isPath) {
+            result = result.replace(ENTROPY_CANDIDATE, candidate => {
+                if (!this.looksLikeSecret(candidate)) {
+                    return candidate;
+                }
+                this.log('high-entropy', endpoint, location);
+                return '[REDACTED:high-entropy]';
+            });
+        }
+
+        return result;
+    }
+
+    private looksLikeSecret(candidate: string): boolean {
+        // Paths in code and diffs are judged per segment, so a long path of
+        // ordinary names is not mistaken for a token
+        if (candidate.includes('/')) {
+            return candidate.split('/').some(segment => segment.length >= MIN_ENTROPY_LENGTH && this.looksLikeSecret(segment));
+        }
+
+        // Secrets mix letters and digits; identifiers rarely reach the threshold
+        if (!/[0-9]/.test(candidate) || !/[A-Za-z]/.test(candidate) || candidate.includes('REDACTED')) {
+            return false;
+        }
+        return this.shannonEntropy(candidate) >= this.config.entropyThreshold;
+    }
+
+    private shannonEntropy(text: string): number {
+        const counts = new Map<string, number>();
+        for (const char of text) {
+            counts.set(char, (counts.get(char) || 0) + 1);
+        }
+
+        let entropy = 0;
+        for (const count of counts.values()) {
+            const probability = count / text.length;
+            entropy -= probability * Math.log2(probability);
+        }
+        return entropy;
+    }
+
+    private log(rule: string, endpoint: string, location: string): void {
+        this.outputChannel.appendLine(`🔒 Redacted ${rule} in ${endpoint} payload at ${location}`);
+    }
+}
@@ -0,0 +1,243 @@
+export type PromptSectionId = 'project' | 'decisions' | 'patterns' | 'editor' | 'selection' | 'suggestions';
+
+export interface PromptSection {
+    id: PromptSectionId;
+    title: string;
+    // Ordered most relevant first, as the server returns them
+    items: string[];
+    // Base relevance of the whole section, 0 to 1
+    weight: number;
+    format: 'list' | 'text' | 'code';
+    language?: string;
+}
+
+export interface PromptBudget {
+    contextWindow: number;
+    // Injected context may use at most contextWindow / compressionRatio tokens
+    compressionRatio: number;
+}
+
+export interface DroppedPromptItem {
+    section: PromptSectionId;
+    preview: string;
+    tokens: number;
+    reason: 'truncated' | 'dropped';
+}
+
+export interface PromptBuildReport {
+    contextWindow: number;
+    budgetTokens: number;
+    usedTokens: number;
+    includedItems: number;
+    dropped: DroppedPromptItem[];
+}
+
+export interface BuiltPrompt {
+    context: string;
+    // Items that made it into the budget, per section, in their original order
+    sections: Partial<Record<PromptSectionId, string[]>>;
+    report: PromptBuildReport;
+}
+
+interface Candidate {
+    section: PromptSection;
+    index: number;
+    text: string;
+    score: number;
+}
+
+// Below this many tokens a truncated item carries too little to be worth including
+const MIN_TRUNCATED_TOKENS = 24;
+const CHARS_PER_TOKEN = 4;
+
+// Context windows of common models, matched by prefix; settings can override
+const KNOWN_CONTEXT_WINDOWS: Record<string, number> = {
+    'gpt-4.1': 1000000,
+    'gpt-4o': 128000,
+    'gpt-4-turbo': 128000,
+    'gpt-4': 8192,
+    'gpt-3.5': 16385,
+    'o1': 200000,
+    'o3': 200000,
+    'o4': 200000,
+    'claude': 200000,
+    'gemini': 1000000,
+    'llama3': 8192,
+    'qwen2.5-coder': 32768,
+    'codellama': 16384,
+    'deepseek-coder': 16384,
+    'mistral': 32768
+};
+
+/**
+ * Fits ranked context sections into a token budget derived from the target
+ * model's context window. Items compete on relevance across sections; the
+ * ones that do not fit are compressed, then truncated, then dropped, and
+ * everything that was cut is listed in the report.
+ */
+export class PromptBuilder {
+    private budget: PromptBudget;
+    private sections: PromptSection[] = [];
+
+    constructor(budget: PromptBudget) {
+        this.budget = budget;
+    }
+
+    static estimateTokens(text: string): number {
+        return Math.ceil(text.length / CHARS_PER_TOKEN);
+    }
+
+    static resolveContextWindow(model: string | undefined, overrides: Record<string, number>, fallback: number): number {
+        if (!model) {
+            return fallback;
+        }
+
+        const name = model.toLowerCase();
+        const table = { ...KNOWN_CONTEXT_WINDOWS, ...overrides };
+        // Longest prefix wins so 'gpt-4o' is not read as 'gpt-4'
+        const match = Object.keys(table)
+            .filter(prefix => name.startsWith(prefix.toLowerCase()))
+            .sort((a, b) => b.length - a.length)[0];
+
+        return match ? table[match] : fallback;
+    }
+
+    addSection(section: PromptSection): this {
+        if (section.items.some(item => item.trim().length > 0)) {
+            this.sections.push(section);
+        }
+        return this;
+    }
+
+    build(): BuiltPrompt {
+        const budgetTokens = Math.max(0, Math.floor(this.budget.contextWindow / Math.max(1, this.budget.compressionRatio)));
+        const dropped: DroppedPromptItem[] = [];
+        const accepted = new Map<PromptSectionId, Map<number, string>>();
+        let usedTokens = 0;
+
+        const accept = (candidate: Candidate, text: string, tokens: number, headerTokens: number) => {
+            if (!accepted.has(candidate.section.id)) {
+                accepted.set(candidate.section.id, new Map());
+            }
+            accepted.get(candidate.section.id)!.set(candidate.index, text);
+            usedTokens += tokens + headerTokens;
+        };
+        const headerCost = (section: PromptSection) =>
+            accepted.has(section.id) ? 0 : PromptBuilder.estimateTokens(this.renderHeader(section));
+
+        // First pass takes whole items by rank, so one long item cannot crowd
+        // out several short ones that together are worth more
+        const deferred: { candidate: Candidate; text: string; tokens: number }[] = [];
+        for (const candidate of this.rankCandidates()) {
+            const text = this.compress(candidate.text, candidate.section.format);
+            const tokens = PromptBuilder.estimateTokens(this.renderItem(text, candidate.section));
+            const headerTokens = headerCost(candidate.section);
+
+            if (tokens + headerTokens <= budgetTokens - usedTokens) {
+                accept(candidate, text, tokens, headerTokens);
+            } else {
+                deferred.push({ candidate, text, tokens });
+            }
+        }
+
+        // Second pass truncates what did not fit into the space left over
+        for (const { candidate, text, tokens } of deferred) {
+            const headerTokens = headerCost(candidate.section);
+            const remaining = budgetTokens - usedTokens - headerTokens;
+            if (remaining < MIN_TRUNCATED_TOKENS) {
+                dropped.push(this.describe(candidate, tokens, 'dropped'));
+                continue;
+            }
+
+            dropped.push(this.describe(candidate, tokens, 'truncated'));
+            const truncated = this.truncate(text, candidate.section, remaining);
+            accept(candidate, truncated, PromptBuilder.estimateTokens(this.renderItem(truncated, candidate.section)), headerTokens);
+        }
+
+        // Render in the order sections were added, items in their original order
+        const sections: Partial<Record<PromptSectionId, string[]>> = {};
+        const context = this.sections
+            .filter(section => accepted.has(section.id))
+            .map(section => {
+                const items = Array.from(accepted.get(section.id)!.entries())
+                    .sort(([a], [b]) => a - b)
+                    .map(([, text]) => text);
+                sections[section.id] = items;
+                return this.renderHeader(section) + items.map(text => this.renderItem(text, section)).join('');
+            })
+            .join('\n');
+
+        return {
+            context,
+            sections,
+            report: {
+                contextWindow: this.budget.contextWindow,
+                budgetTokens,
+                usedTokens,
+                includedItems: Array.from(accepted.values()).reduce((total, items) => total + items.size, 0),
+                dropped
+            }
+        };
+    }
+
+    static formatReport(report: PromptBuildReport): string {
+        const lines = [`Prompt context: ${report.usedTokens}/${report.budgetTokens} tokens (window ${report.contextWindow}), ${report.includedItems} items`];
+        for (const item of report.dropped) {
+            lines.push(`  ${item.reason} ${item.section} (~${item.tokens} tokens): ${item.preview}`);
+        }
+        return lines.join('\n');
+    }
+
+    private rankCandidates(): Candidate[] {
+        const candidates: Candidate[] = [];
+        for (const section of this.sections) {
+            section.items.forEach((text, index) => {
+                if (text.trim().length === 0) {
+                    return;
+                }
+                // Later items in a section were ranked lower by the server
+                candidates.push({ section, index, text, score: section.weight / (1 + index * 0.5) });
+            });
+        }
+        return candidates.sort((a, b) => b.score - a.score);
+    }
+
+    private compress(text: string, format: PromptSection['format']): string {
+        if (format === 'code') {
+            // Keep indentation but drop trailing whitespace and runs of blank lines
+            return text.split('\n').map(line => line.replace(/\s+$/, '')).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+        }
+        return text.replace(/\s+/g, ' ').trim();
+    }
+
+    private truncate(text: string, section: PromptSection, tokens: number): string {
+        const overhead = PromptBuilder.estimateTokens(this.renderItem('', section));
+        const maxChars = Math.max(0, (tokens - overhead) * CHARS_PER_TOKEN - 1);
+        return text.slice(0, maxChars).replace(/\s+\S*$/, '') + '…';
+    }
+
+    private renderHeader(section: PromptSection): string {
+        return `## ${section.title}:\n`;
+    }
+
+    private renderItem(text: string, section: PromptSection): string {
+        switch (section.format) {
+            case 'list':
+                return `- ${text}\n`;
+            case 'code':
+                return '```' + (section.language || '') + '\n' + text + '\n```\n';
+            default:
+                return `${text}\n`;
+        }
+    }
+
+    private describe(candidate: Candidate, tokens: number, reason: DroppedPromptItem['reason']): DroppedPromptItem {
+        const preview = candidate.text.replace(/\s+/g, ' ').trim();
+        return {
+            section: candidate.section.id,
+            preview: preview.length > 60 ? preview.slice(0, 57) + '...' : preview,
+            tokens,
+            reason
+        };
+    }
+}
@@ -0,0 +1,411 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptBuilder, PromptBudget, PromptBuildReport, PromptSection, PromptSectionId } from './prompt-builder';
+
+export type PromptTemplateKind = 'minimal' | 'standard' | 'maximum' | 'completion';
+
+export const PROMPT_TEMPLATE_KINDS: PromptTemplateKind[] = ['minimal', 'standard', 'maximum', 'completion'];
+
+export interface PromptTemplate {
+    kind: PromptTemplateKind;
+    body: string;
+    provider?: string;
+    languages?: string[];
+    // File the template came from, or 'built-in'
+    source: string;
+}
+
+export interface PromptTemplateData {
+    prompt: string;
+    projectSummary: string;
+    decisions: string[];
+    patterns: string[];
+    suggestions: string[];
+    selectedText: string;
+    gitBranch: string;
+    activeFile: string;
+    workspaceRoot: string;
+    language: string;
+    provider: string;
+    model: string;
+    codeBefore: string;
+    codeAfter: string;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    source: string;
+    report?: PromptBuildReport;
+}
+
+const LIST_FIELDS = ['decisions', 'patterns', 'suggestions'] as const;
+const SCALAR_FIELDS = [
+    'prompt', 'projectSummary', 'selectedText', 'gitBranch', 'activeFile', 'workspaceRoot',
+    'language', 'provider', 'model', 'codeBefore', 'codeAfter'
+] as const;
+// Budgeted block with every section, ranked as PromptBuilder sees fit
+const CONTEXT_FIELD = 'context';
+
+const FRONT_MATTER_KEYS = ['kind', 'provider', 'language'];
+const PLACEHOLDER = /\{\{\s*([A-Za-z]+)(?:\s*:\s*([^}\s]*))?\s*\}\}/g;
+
+const BUILT_IN_TEMPLATES: Record<PromptTemplateKind, string> = {
+    minimal: `{{prompt}}
+
+[Project: {{workspaceRoot}}]`,
+
+    standard: `
+# Context from KnowledgeHub AI Intelligence
+
+## Current File: {{activeFile}}
+## Git Branch: {{gitBranch}}
+
+## Recent Project Patterns:
+{{patterns}}
+
+## Original Request:
+{{prompt}}
+`,
+
+    maximum: `
+# Enhanced Context from KnowledgeHub AI Intelligence
+
+{{context}}
+## Original Request:
+{{prompt}}
+
+---
+Please provide a response that considers the full project context, learned patterns, and past decisions. Focus on consistency with existing codebase patterns and architectural decisions.
+`,
+
+    completion: `
+# Enhanced Completion Context
+
+## File: {{activeFile}}
+## Language: {{language}}
+
+## Project Context:
+{{projectSummary}}
+
+## Relevant Patterns:
+{{patterns:3}}
+
+## Code Context:
+\`\`\`{{language}}
+{{codeBefore}}█{{codeAfter}}
+\`\`\`
+
+## Suggestions:
+{{suggestions:2}}
+
+Complete the code at the cursor position (█) considering the project context and patterns.
+`
+};
+
+/**
+ * Loads prompt templates from .knowledgehub/templates in each workspace
+ * folder and from the user template directory. A template file is markdown
+ * with optional front matter:
+ *
+ *     ---
+ *     kind: maximum
+ *     provider: cline
+ *     language: typescript, javascript
+ *     ---
+ *
+ * Without `kind` the file name (up to the first dot) is used. Workspace
+ * templates win over user templates, which win over the built-in ones.
+ */
+export class PromptTemplateRegistry {
+    private outputChannel: vscode.OutputChannel;
+    private templates: PromptTemplate[] = [];
+    private diagnostics = vscode.languages.createDiagnosticCollection('knowledgehub-templates');
+    // The load in progress, so reloads run one after another
+    private loading: Promise<void> = Promise.resolve();
+    private userDirectoryWatcher?: vscode.Disposable;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /** Loads run one at a time, so an older reload never replaces the templates of a newer one. */
+    load(): Promise<void> {
+        this.loading = this.loading.catch(() => undefined).then(() => this.loadTemplates());
+        return this.loading;
+    }
+
+    watch(): void {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/.knowledgehub/templates/*.md');
+        const reload = () => this.load();
+
+        this.watchUserDirectory(reload);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.templates')) {
+                    this.watchUserDirectory(reload);
+                    reload();
+                }
+            })
+        );
+    }
+
+    /**
+     * Picks the most specific template: provider and language, then provider,
+     * then language, then the generic one. Later (workspace) templates win ties.
+     */
+    resolve(kind: PromptTemplateKind, options: { provider?: string; language?: string } = {}): PromptTemplate {
+        const provider = options.provider?.toLowerCase();
+        const language = options.language?.toLowerCase();
+        let best: PromptTemplate | undefined;
+        let bestScore = -1;
+
+        for (const template of this.templates) {
+            if (template.kind !== kind) {
+                continue;
+            }
+            if (template.provider && template.provider !== provider) {
+                continue;
+            }
+            if (template.languages && (!language || !template.languages.includes(language))) {
+                continue;
+            }
+
+            const score = (template.provider ? 2 : 0) + (template.languages ? 1 : 0);
+            if (score >= bestScore) {
+                best = template;
+                bestScore = score;
+            }
+        }
+
+        return best ?? { kind, body: BUILT_IN_TEMPLATES[kind], source: 'built-in' };
+    }
+
+    /**
+     * Fills in a template. Fields the template uses that carry project
+     * context go through PromptBuilder first, so they respect the budget.
+     */
+    render(template: PromptTemplate, data: PromptTemplateData, budget: PromptBudget): RenderedPrompt {
+        const used = new Set(Array.from(template.body.matchAll(PLACEHOLDER), match => match[1]));
+        const usesContext = used.has(CONTEXT_FIELD);
+        const wants = (field: string) => usesContext || used.has(field);
+
+        const builder = new PromptBuilder(budget);
+        const sections: PromptSection[] = [
+            { id: 'editor', title: 'Current Development Context', weight: 1, format: 'list', items: usesContext ? [
+                `**File**: ${data.activeFile}`,
+                `**Git Branch**: ${data.gitBranch}`,
+                `**Workspace**: ${data.workspaceRoot}`
+            ] : [] },
+            { id: 'project', title: 'Project Context', weight: 0.95, format: 'text', items: wants('projectSummary') ? [data.projectSummary] : [] },
+            { id: 'selection', title: 'Selected Text', weight: 0.9, format: 'code', language: data.language, items: wants('selectedText') ? [data.selectedText] : [] },
+            { id: 'decisions', title: 'Relevant Past Decisions', weight: 0.85, format: 'list', items: wants('decisions') ? data.decisions : [] },
+            { id: 'patterns', title: 'Known Patterns for This Task', weight: 0.8, format: 'list', items: wants('patterns') ? data.patterns : [] },
+            { id: 'suggestions', title: 'AI Suggestions', weight: 0.6, format: 'list', items: wants('suggestions') ? data.suggestions : [] }
+        ];
+        sections.forEach(section => builder.addSection(section));
+
+        const built = builder.build();
+        const budgeted = (id: PromptSectionId) => built.sections[id] || [];
+        const lists: Record<typeof LIST_FIELDS[number], string[]> = {
+            decisions: budgeted('decisions'),
+            patterns: budgeted('patterns'),
+            suggestions: budgeted('suggestions')
+        };
+
+        const text = template.body.replace(PLACEHOLDER, (_match, name: string, count?: string) => {
+            if (name === CONTEXT_FIELD) {
+                return built.context;
+            }
+            if ((LIST_FIELDS as readonly string[]).includes(name)) {
+                const items = lists[name as typeof LIST_FIELDS[number]];
+                return items.slice(0, count ? Number(count) : items.length).map(item => `- ${item}`).join('\n');
+            }
+            if (name === 'projectSummary') {
+                return budgeted('project')[0] ?? '';
+            }
+            if (name === 'selectedText') {
+                return budgeted('selection')[0] ?? '';
+            }
+            return String(data[name as typeof SCALAR_FIELDS[number]] ?? '');
+        });
+
+        return {
+            text,
+            source: template.source,
+            report: built.report.includedItems > 0 || built.report.dropped.length > 0 ? built.report : undefined
+        };
+    }
+
+    dispose(): void {
+        this.userDirectoryWatcher?.dispose();
+        this.diagnostics.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private async loadTemplates(): Promise<void> {
+        this.diagnostics.clear();
+        const loaded: PromptTemplate[] = [];
+
+        // User templates first so workspace ones shadow them when equally specific
+        for (const directory of [this.getUserTemplateDirectory(), ...this.getWorkspaceTemplateDirectories()]) {
+            if (!directory) {
+                continue;
+            }
+
+            let entries: [string, vscode.FileType][];
+            try {
+                entries = await vscode.workspace.fs.readDirectory(directory);
+            } catch {
+                continue;
+            }
+
+            for (const [name, type] of entries) {
+                if (type !== vscode.FileType.File || !name.endsWith('.md')) {
+                    continue;
+                }
+                const template = await this.loadFile(vscode.Uri.joinPath(directory, name));
+                if (template) {
+                    loaded.push(template);
+                }
+            }
+        }
+
+        this.templates = loaded;
+        this.outputChannel.appendLine(`📝 Loaded ${loaded.length} prompt template${loaded.length === 1 ? '' : 's'}`);
+    }
+
+    // The user directory is outside the workspace, so the glob watcher does not see it
+    private watchUserDirectory(reload: () => void): void {
+        this.userDirectoryWatcher?.dispose();
+        const directory = this.getUserTemplateDirectory();
+        if (!directory) {
+            this.userDirectoryWatcher = undefined;
+            return;
+        }
+
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(directory, '*.md'));
+        this.userDirectoryWatcher = vscode.Disposable.from(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload)
+        );
+    }
+
+    private async loadFile(uri: vscode.Uri): Promise<PromptTemplate | undefined> {
+        let content: string;
+        try {
+            content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch (error) {
+            this.outputChannel.appendLine(`⚠️ Failed to read template ${uri.fsPath}: ${error}`);
+            return undefined;
+        }
+
+        const problems: vscode.Diagnostic[] = [];
+        const lines = content.split(/\r?\n/);
+        const fields: Record<string, string> = {};
+        let bodyStart = 0;
+
+        if (lines[0]?.trim() === '---') {
+            const end = lines.indexOf('---', 1);
+            if (end < 0) {
+                problems.push(this.problem(0, 'Front matter is not closed with ---'));
+            } else {
+                for (let line = 1; line < end; line++) {
+                    const match = /^\s*([A-Za-z]+)\s*:\s*(.*?)\s*$/.exec(lines[line]);
+                    if (!match) {
+                        if (lines[line].trim()) {
+                            problems.push(this.problem(line, 'Expected "key: value"'));
+                        }
+                        continue;
+                    }
+                    if (!FRONT_MATTER_KEYS.includes(match[1])) {
+                        problems.push(this.problem(line, `Unknown key "${match[1]}"; expected one of ${FRONT_MATTER_KEYS.join(', ')}`));
+                        continue;
+                    }
+                    fields[match[1]] = match[2];
+                }
+                bodyStart = end + 1;
+            }
+        }
+
+        const kind = (fields.kind || path.basename(uri.fsPath).split('.')[0]) as PromptTemplateKind;
+        if (!PROMPT_TEMPLATE_KINDS.includes(kind)) {
+            problems.push(this.problem(0, `Unknown template kind "${kind}"; expected one of ${PROMPT_TEMPLATE_KINDS.join(', ')}`));
+        }
+
+        for (let line = bodyStart; line < lines.length; line++) {
+            problems.push(...this.validateLine(lines[line], line));
+        }
+
+        this.diagnostics.set(uri, problems);
+        if (problems.some(problem => problem.severity === vscode.DiagnosticSeverity.Error)) {
+            this.outputChannel.appendLine(`⚠️ Skipping invalid template ${uri.fsPath} (${problems.length} problem${problems.length === 1 ? '' : 's'})`);
+            return undefined;
+        }
+
+        return {
+            kind,
+            body: lines.slice(bodyStart).join('\n'),
+            provider: fields.provider?.toLowerCase() || undefined,
+            languages: fields.language
+                ? fields.language.split(',').map(language => language.trim().toLowerCase()).filter(language => language.length > 0)
+                : undefined,
+            source: uri.fsPath
+        };
+    }
+
+    private validateLine(text: string, line: number): vscode.Diagnostic[] {
+        const problems: vscode.Diagnostic[] = [];
+
+        for (const match of text.matchAll(PLACEHOLDER)) {
+            const [placeholder, name, count] = match;
+            const range = new vscode.Range(line, match.index!, line, match.index! + placeholder.length);
+            const isList = (LIST_FIELDS as readonly string[]).includes(name);
+
+            if (!isList && !(SCALAR_FIELDS as readonly string[]).includes(name) && name !== CONTEXT_FIELD) {
+                problems.push(new vscode.Diagnostic(range, `Unknown placeholder "${name}"`, vscode.DiagnosticSeverity.Error));
+            } else if (count !== undefined && !isList) {
+                problems.push(new vscode.Diagnostic(range, `"${name}" does not take a count`, vscode.DiagnosticSeverity.Error));
+            } else if (count !== undefined && !/^[1-9]\d*$/.test(count)) {
+                problems.push(new vscode.Diagnostic(range, `Count for "${name}" must be a positive whole number`, vscode.DiagnosticSeverity.Error));
+            }
+        }
+
+        // Whatever is left after removing valid placeholders must not open one
+        const leftover = text.replace(PLACEHOLDER, '').indexOf('{{');
+        if (leftover >= 0) {
+            problems.push(new vscode.Diagnostic(
+                new vscode.Range(line, leftover, line, text.length),
+                'Unclosed or malformed placeholder',
+                vscode.DiagnosticSeverity.Error
+            ));
+        }
+
+        return problems;
+    }
+
+    private problem(line: number, message: string): vscode.Diagnostic {
+        return new vscode.Diagnostic(new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER), message, vscode.DiagnosticSeverity.Error);
+    }
+
+    private getWorkspaceTemplateDirectories(): vscode.Uri[] {
+        return (vscode.workspace.workspaceFolders || []).map(folder => vscode.Uri.joinPath(folder.uri, '.knowledgehub', 'templates'));
+    }
+
+    private getUserTemplateDirectory(): vscode.Uri | undefined {
+        const configured = vscode.workspace.getConfiguration('knowledgehub').get<string>('templates.userDirectory', '');
+        const directory = configured
+            ? configured.replace(/^~(?=$|[\\/])/, os.homedir())
+            : path.join(os.homedir(), '.knowledgehub', 'templates');
+        return vscode.Uri.file(directory);
+    }
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient, Memory } from './knowledgehub-client';
+import { AIEnhancementLayer } from './ai-enhancement-layer';
+import {
+    KnowledgeHubApiV1,
+    KnowledgeHubExtensionExports,
+    EnhancedContextRequest,
+    MemorySearchQuery,
+    Decision,
+    DecisionStatus,
+    ErrorLearning,
+    AIRequest,
+    EnhancedPrompt
+} from './knowledgehub-api';
+
+class KnowledgeHubApiV1Impl implements KnowledgeHubApiV1 {
+    readonly version = 1;
+    readonly onDidReceiveMemory: vscode.Event<Memory>;
+    private knowledgeHub: KnowledgeHubClient;
+    private aiEnhancementLayer: AIEnhancementLayer;
+
+    constructor(
+        knowledgeHub: KnowledgeHubClient,
+        aiEnhancementLayer: AIEnhancementLayer,
+        onDidReceiveMemory: vscode.Event<Memory>
+    ) {
+        this.knowledgeHub = knowledgeHub;
+        this.aiEnhancementLayer = aiEnhancementLayer;
+        this.onDidReceiveMemory = onDidReceiveMemory;
+    }
+
+    getEnhancedContext(request: EnhancedContextRequest) {
+        return this.knowledgeHub.getEnhancedContext(request);
+    }
+
+    searchMemories(query: MemorySearchQuery) {
+        return this.knowledgeHub.searchMemories(query);
+    }
+
+    recordDecision(decision: Decision): Promise<DecisionStatus> {
+        return this.knowledgeHub.recordDecision(decision);
+    }
+
+    learnFromError(error: ErrorLearning) {
+        return this.knowledgeHub.learnFromError(error);
+    }
+
+    async enhancePrompt(request: AIRequest): Promise<EnhancedPrompt> {
+        const enhanced = await this.aiEnhancementLayer.enhanceAIRequest(request);
+        // The layer hands back the request untouched when enhancement is off or fails
+        return {
+            ...enhanced,
+            enhancedPrompt: enhanced.enhancedPrompt ?? request.prompt
+        };
+    }
+}
+
+/**
+ * The object returned from activate(). Consumers pick an API version so
+ * later breaking changes can ship next to the old shape.
+ */
+export class KnowledgeHubPublicApi implements KnowledgeHubExtensionExports {
+    private memoryEmitter = new vscode.EventEmitter<Memory>();
+    private disposables: vscode.Disposable[] = [];
+    private v1: KnowledgeHubApiV1Impl;
+
+    constructor(
+        knowledgeHub: KnowledgeHubClient,
+        aiEnhancementLayer: AIEnhancementLayer,
+        memorySources: vscode.Event<Memory | undefined>[]
+    ) {
+        this.v1 = new KnowledgeHubApiV1Impl(knowledgeHub, aiEnhancementLayer, this.memoryEmitter.event);
+
+        memorySources.forEach(source => this.disposables.push(
+            source(memory => {
+                if (memory) {
+                    this.memoryEmitter.fire(memory);
+                }
+            })
+        ));
+    }
+
+    getAPI(version: 1): KnowledgeHubApiV1 {
+        if (version !== 1) {
+            throw new Error(`KnowledgeHub API version ${version} is not supported`);
+        }
+        return this.v1;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.memoryEmitter.dispose();
+    }
+}
@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+
+export type EndpointName =
+    | 'health'
+    | 'session'
+    | 'context'
+    | 'analyze'
+    | 'memories'
+    | 'memoryWrite'
+    | 'tasks'
+    | 'track'
+    | 'decision'
+    | 'learning'
+    | 'live'
+    | 'completion';
+
+export interface EndpointPolicy {
+    timeoutMs: number;
+    retries: number;
+    retryBaseDelayMs: number;
+    idempotent: boolean;
+    circuitBreaker: boolean;
+}
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number;
+    cooldownMs: number;
+}
+
+export interface RequestPolicyConfig {
+    endpoints?: Partial<Record<EndpointName, Partial<EndpointPolicy>>>;
+    circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
+
+// Context calls sit on the inline completion path, so they fail fast rather
+// than retry; reads that are safe to repeat get retries with jitter
+const DEFAULT_POLICIES: Record<EndpointName, EndpointPolicy> = {
+    health: { timeoutMs: 5000, retries: 0, retryBaseDelayMs: 0, idempotent: true, circuitBreaker: false },
+    session: { timeoutMs: 15000, retries: 0, retryBaseDelayMs: 0, idempotent: false, circuitBreaker: true },
+    context: { timeoutMs: 1500, retries: 0, retryBaseDelayMs: 0, idempotent: true, circuitBreaker: true },
+    analyze: { timeoutMs: 30000, retries: 1, retryBaseDelayMs: 1000, idempotent: true, circuitBreaker: true },
+    memories: { timeoutMs: 5000, retries: 2, retryBaseDelayMs: 300, idempotent: true, circuitBreaker: true },
+    memoryWrite: { timeoutMs: 10000, retries: 0, retryBaseDelayMs: 0, idempotent: false, circuitBreaker: true },
+    tasks: { timeoutMs: 5000, retries: 2, retryBaseDelayMs: 300, idempotent: true, circuitBreaker: true },
+    track: { timeoutMs: 5000, retries: 0, retryBaseDelayMs: 0, idempotent: false, circuitBreaker: true },
+    decision: { timeoutMs: 10000, retries: 0, retryBaseDelayMs: 0, idempotent: false, circuitBreaker: true },
+    learning: { timeoutMs: 10000, retries: 0, retryBaseDelayMs: 0, idempotent: false, circuitBreaker: true },
+    live: { timeoutMs: 3000, retries: 0, retryBaseDelayMs: 0, idempotent: false, circuitBreaker: true },
+    completion: { timeoutMs: 5000, retries: 0, retryBaseDelayMs: 0, idempotent: true, circuitBreaker: true }
+};
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+    failureThreshold: 5,
+    cooldownMs: 30000
+};
+
+export class CircuitOpenError extends Error {
+    constructor(readonly endpoint: EndpointName, readonly retryAt: number) {
+        super(`Circuit open for ${endpoint}; skipping request until ${new Date(retryAt).toLocaleTimeString()}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+interface CircuitState {
+    consecutiveFailures: number;
+    openUntil: number;
+    isTrialInFlight: boolean;
+    // Tells listeners when the cooldown ends, since no request may do so
+    cooldownTimer?: NodeJS.Timeout;
+}
+
+export class RequestPolicy {
+    private outputChannel: vscode.OutputChannel;
+    private policies: Record<EndpointName, EndpointPolicy> = { ...DEFAULT_POLICIES };
+    private breakerOptions: CircuitBreakerOptions = { ...DEFAULT_CIRCUIT_BREAKER };
+    private circuits: Map<EndpointName, CircuitState> = new Map();
+    private circuitEmitter = new vscode.EventEmitter<EndpointName[]>();
+
+    readonly onDidChangeOpenCircuits = this.circuitEmitter.event;
+
+    constructor(outputChannel: vscode.OutputChannel, config: RequestPolicyConfig = {}) {
+        this.outputChannel = outputChannel;
+        this.configure(config);
+    }
+
+    configure(config: RequestPolicyConfig): void {
+        this.policies = { ...DEFAULT_POLICIES };
+        for (const [name, overrides] of Object.entries(config.endpoints || {})) {
+            if (name in DEFAULT_POLICIES && overrides) {
+                const endpoint = name as EndpointName;
+                this.policies[endpoint] = { ...DEFAULT_POLICIES[endpoint], ...overrides };
+            }
+        }
+        this.breakerOptions = { ...DEFAULT_CIRCUIT_BREAKER, ...config.circuitBreaker };
+    }
+
+    getPolicy(endpoint: EndpointName): EndpointPolicy {
+        return this.policies[endpoint];
+    }
+
+    getOpenCircuits(): EndpointName[] {
+        const now = Date.now();
+        return Array.from(this.circuits.entries())
+            .filter(([, circuit]) => circuit.openUntil > now)
+            .map(([endpoint]) => endpoint);
+    }
+
+    async execute<T>(endpoint: EndpointName, request: (timeoutMs: number) => Promise<T>): Promise<T> {
+        const policy = this.policies[endpoint];
+        const circuit = policy.circuitBreaker ? this.acquireCircuit(endpoint) : undefined;
+        const maxAttempts = policy.idempotent ? policy.retries + 1 : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const result = await request(policy.timeoutMs);
+                if (circuit) {
+                    this.recordSuccess(endpoint, circuit);
+                }
+                return result;
+            } catch (error) {
+                const isTransient = RequestPolicy.isTransientError(error);
+
+                if (!isTransient || attempt >= maxAttempts) {
+                    if (circuit) {
+                        this.recordFailure(endpoint, circuit, isTransient);
+                    }
+                    throw error;
+                }
+
+                const delay = this.retryDelay(policy, attempt);
+                this.outputChannel.appendLine(`🔁 Retrying ${endpoint} in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    static isTransientError(error: any): boolean {
+        // A request the caller cancelled says nothing about server health
+        if (error?.code === 'ERR_CANCELED') {
+            return false;
+        }
+
+        // Timeouts and connection failures have no response; 5xx and 429 may clear up
+        const status = error?.response?.status;
+        return status === undefined || status >= 500 || status === 429;
+    }
+
+    private acquireCircuit(endpoint: EndpointName): CircuitState {
+        let circuit = this.circuits.get(endpoint);
+        if (!circuit) {
+            circuit = { consecutiveFailures: 0, openUntil: 0, isTrialInFlight: false };
+            this.circuits.set(endpoint, circuit);
+        }
+
+        if (circuit.openUntil > Date.now()) {
+            throw new CircuitOpenError(endpoint, circuit.openUntil);
+        }
+
+        // Past the cooldown the circuit is half-open: one trial request goes
+        // through and the rest keep failing fast until it settles
+        if (circuit.consecutiveFailures >= this.breakerOptions.failureThreshold) {
+            if (circuit.isTrialInFlight) {
+                throw new CircuitOpenError(endpoint, Date.now() + this.breakerOptions.cooldownMs);
+            }
+            circuit.isTrialInFlight = true;
+        }
+
+        return circuit;
+    }
+
+    private recordSuccess(endpoint: EndpointName, circuit: CircuitState): void {
+        const wasTripped = circuit.consecutiveFailures >= this.breakerOptions.failureThreshold;
+        circuit.consecutiveFailures = 0;
+        circuit.openUntil = 0;
+        circuit.isTrialInFlight = false;
+        this.clearCooldownTimer(circuit);
+
+        if (wasTripped) {
+            this.outputChannel.appendLine(`✅ Circuit closed for ${endpoint}`);
+            this.circuitEmitter.fire(this.getOpenCircuits());
+        }
+    }
+
+    private recordFailure(endpoint: EndpointName, circuit: CircuitState, isTransient: boolean): void {
+        circuit.isTrialInFlight = false;
+
+        // Client errors (4xx) say nothing about server health
+        if (!isTransient) {
+            return;
+        }
+
+        circuit.consecutiveFailures++;
+        if (circuit.consecutiveFailures >= this.breakerOptions.failureThreshold) {
+            circuit.openUntil = Date.now() + this.breakerOptions.cooldownMs;
+            this.clearCooldownTimer(circuit);
+            circuit.cooldownTimer = setTimeout(() => {
+                circuit.cooldownTimer = undefined;
+                this.circuitEmitter.fire(this.getOpenCircuits());
+            }, this.breakerOptions.cooldownMs);
+            this.outputChannel.appendLine(
+                `⛔ Circuit open for ${endpoint} after ${circuit.consecutiveFailures} failures; cooling down ${Math.round(this.breakerOptions.cooldownMs / 1000)}s`
+            );
+            this.circuitEmitter.fire(this.getOpenCircuits());
+        }
+    }
+
+    private clearCooldownTimer(circuit: CircuitState): void {
+        if (circuit.cooldownTimer) {
+            clearTimeout(circuit.cooldownTimer);
+            circuit.cooldownTimer = undefined;
+        }
+    }
+
+    private retryDelay(policy: EndpointPolicy, attempt: number): number {
+        const exponential = policy.retryBaseDelayMs * Math.pow(2, attempt - 1);
+        return Math.round(exponential / 2 + Math.random() * exponential / 2);
+    }
+
+    dispose(): void {
+        this.circuits.forEach(circuit => this.clearCooldownTimer(circuit));
+        this.circuitEmitter.dispose();
+    }
+}
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { KnowledgeHubClient } from './knowledgehub-client';
+import { ConnectionMonitor } from './connection-monitor';
+import { EndpointName } from './request-policy';
+import { TrackingScope } from './tracking-scope';
+
+export class KnowledgeHubStatusBar {
+    private knowledgeHub: KnowledgeHubClient;
+    private connectionMonitor: ConnectionMonitor;
+    private trackingScope: TrackingScope;
+    private item: vscode.StatusBarItem;
+    private openCircuits: EndpointName[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(knowledgeHub: KnowledgeHubClient, connectionMonitor: ConnectionMonitor, trackingScope: TrackingScope) {
+        this.knowledgeHub = knowledgeHub;
+        this.connectionMonitor = connectionMonitor;
+        this.trackingScope = trackingScope;
+
+        this.item = vscode.window.createStatusBarItem('knowledgehub.status', vscode.StatusBarAlignment.Left, 100);
+        this.item.name = 'KnowledgeHub';
+        this.item.command = 'knowledgehub.showStatusMenu';
+
+        this.disposables.push(
+            this.connectionMonitor.onDidChangeState(() => this.update()),
+            this.knowledgeHub.onDidInitializeSession(() => this.update()),
+            this.trackingScope.onDidChange(() => this.update()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+            this.knowledgeHub.onDidChangeOpenCircuits(circuits => {
+                this.openCircuits = circuits;
+                this.update();
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.ai')) {
+                    this.update();
+                }
+            })
+        );
+
+        this.update();
+        this.item.show();
+    }
+
+    update(): void {
+        const config = vscode.workspace.getConfiguration('knowledgehub');
+        const autoEnhance = config.get('ai.autoEnhance', true);
+        const level = config.get<string>('ai.enhancementLevel', 'maximum');
+        const session = this.knowledgeHub.getSessionInfo();
+        const state = this.connectionMonitor.currentState;
+
+        // Connected but with endpoints behind an open circuit breaker
+        const isDegraded = state === 'connected' && this.openCircuits.length > 0;
+
+        let icon: string;
+        let stateLabel: string;
+        if (state === 'connecting') {
+            icon = '$(sync~spin)';
+            stateLabel = 'Connecting';
+        } else if (state === 'disconnected') {
+            icon = '$(debug-disconnect)';
+            stateLabel = 'Disconnected';
+        } else if (isDegraded) {
+            icon = '$(warning)';
+            stateLabel = 'Degraded';
+        } else {
+            icon = '$(pulse)';
+            stateLabel = 'Connected';
+        }
+
+        const memories = session ? ` ${session.memories}` : '';
+        const enhancement = autoEnhance ? level : 'off';
+        // Flag when edits are not being tracked so a forgotten pause is visible
+        const tracking = this.trackingScope.isTracking ? '' : ' $(debug-pause)';
+        this.item.text = `${icon} KH${memories} · ${enhancement}${tracking}`;
+
+        this.item.backgroundColor = state === 'disconnected'
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : isDegraded
+                ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                : undefined;
+
+        const tooltip = new vscode.MarkdownString(undefined, true);
+        tooltip.appendMarkdown(`**KnowledgeHub** — ${stateLabel}\n\n`);
+        if (session) {
+            const folder = session.workspaceFolder && (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+                ? ` (${vscode.workspace.getWorkspaceFolder(vscode.Uri.file(session.workspaceFolder))?.name})`
+                : '';
+            tooltip.appendMarkdown(`Session \`${session.sessionId}\`${folder} · ${session.memories} memories · ${session.tasks} tasks\n\n`);
+        }
+        if (isDegraded) {
+            tooltip.appendMarkdown(`Paused endpoints: ${this.openCircuits.join(', ')}\n\n`);
+        }
+        tooltip.appendMarkdown(`Enhancement: ${autoEnhance ? level : 'disabled'}\n\n`);
+        const filters = this.trackingScope.describeFilters();
+        tooltip.appendMarkdown(`Change tracking: ${this.trackingScope.describe()}${filters.length > 0 ? ` (${filters.join('; ')})` : ''}\n\n`);
+        tooltip.appendMarkdown('_Click for actions_');
+        this.item.tooltip = tooltip;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.item.dispose();
+    }
+}
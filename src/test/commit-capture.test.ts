@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { parseCommitMessage, parseConfidence } from '../commit-capture';
+
+describe('parseCommitMessage', () => {
+    it('reads the structured fields from the trailers', () => {
+        const message = parseCommitMessage([
+            'Switch the cache to Redis',
+            '',
+            'The in-process cache no longer fits in memory.',
+            '',
+            'Decision: Use Redis for the shared cache',
+            'Alternatives: Memcached; keep the LRU cache',
+            'Confidence: 80%',
+            'Reasoning: Already run for sessions',
+            '  and the team knows it well'
+        ].join('\n'));
+
+        assert.strictEqual(message.subject, 'Switch the cache to Redis');
+        assert.strictEqual(message.body, 'The in-process cache no longer fits in memory.');
+        assert.strictEqual(message.decision, 'Use Redis for the shared cache');
+        assert.deepStrictEqual(message.alternatives, ['Memcached', 'keep the LRU cache']);
+        assert.strictEqual(message.confidence, 0.8);
+        assert.strictEqual(message.reasoning, 'Already run for sessions and the team knows it well');
+    });
+
+    it('keeps a last paragraph without known trailer keys in the body', () => {
+        const message = parseCommitMessage('Update the README\n\nNote: only touches docs');
+
+        assert.strictEqual(message.body, 'Note: only touches docs');
+        assert.strictEqual(message.decision, undefined);
+        assert.strictEqual(message.reasoning, undefined);
+    });
+
+    it('drops standard git trailers from the body', () => {
+        const message = parseCommitMessage('Fix typo\n\nSome context.\n\nSigned-off-by: Dev <dev@example.com>');
+
+        assert.strictEqual(message.body, 'Some context.');
+        assert.strictEqual(message.decision, undefined);
+    });
+
+    it('ignores comment lines and joins a wrapped subject', () => {
+        const message = parseCommitMessage('Add retries\nto the client\n# Please enter the commit message');
+
+        assert.strictEqual(message.subject, 'Add retries to the client');
+        assert.strictEqual(message.body, '');
+        assert.deepStrictEqual(message.alternatives, []);
+    });
+
+    it('treats a paragraph with text lines as body even when it has a known key', () => {
+        const message = parseCommitMessage('Refactor\n\nDecision: split the module\nbecause it grew too large');
+
+        assert.strictEqual(message.body, 'Decision: split the module\nbecause it grew too large');
+        assert.strictEqual(message.decision, undefined);
+    });
+});
+
+describe('parseConfidence', () => {
+    it('reads fractions, percentages and whole numbers', () => {
+        assert.strictEqual(parseConfidence('0.85'), 0.85);
+        assert.strictEqual(parseConfidence('85%'), 0.85);
+        assert.strictEqual(parseConfidence('85'), 0.85);
+        assert.strictEqual(parseConfidence('62.5'), 0.625);
+        assert.strictEqual(parseConfidence('1'), 1);
+    });
+
+    it('clamps values that overshoot the 0..1 scale', () => {
+        assert.strictEqual(parseConfidence('1.5'), 1);
+        assert.strictEqual(parseConfidence('150%'), 1);
+    });
+
+    it('rejects anything that is not a number', () => {
+        assert.strictEqual(parseConfidence('high'), undefined);
+        assert.strictEqual(parseConfidence('-0.5'), undefined);
+        assert.strictEqual(parseConfidence(''), undefined);
+    });
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import { AdrFields, parseAdr, renderAdr } from '../decision-recorder';
+
+const TEMPLATE = `# {{number}}. {{title}}
+
+Date: {{date}}
+
+## Status
+
+{{status}}
+
+## Context
+
+{{context}}
+
+## Decision
+
+{{decision}}
+
+## Alternatives Considered
+
+{{alternatives}}
+
+## Confidence
+
+{{confidence}}
+`;
+
+const FIELDS: AdrFields = {
+    number: 7,
+    title: 'Use Postgres for audit logs',
+    date: '2026-03-01',
+    status: 'Accepted',
+    context: 'Audit logs must be queryable for a year.',
+    decision: 'Store them in the main Postgres cluster.',
+    alternatives: ['Elasticsearch', 'S3 with Athena'],
+    confidence: 0.75
+};
+
+describe('renderAdr', () => {
+    it('fills every placeholder', () => {
+        const text = renderAdr(TEMPLATE, FIELDS);
+
+        assert.ok(text.startsWith('# 7. Use Postgres for audit logs\n'));
+        assert.ok(text.includes('- Elasticsearch\n- S3 with Athena'));
+        assert.ok(text.includes('## Confidence\n\n75%'));
+        assert.ok(!text.includes('{{'));
+    });
+
+    it('says so when there are no alternatives and keeps unknown placeholders', () => {
+        const text = renderAdr('{{alternatives}} {{owner}}', { ...FIELDS, alternatives: [] });
+        assert.strictEqual(text, 'None recorded. {{owner}}');
+    });
+});
+
+describe('parseAdr', () => {
+    it('reads back what renderAdr wrote', () => {
+        const parsed = parseAdr(renderAdr(TEMPLATE, FIELDS), '0007-use-postgres-for-audit-logs.md');
+
+        assert.deepStrictEqual(parsed, {
+            title: FIELDS.title,
+            number: 7,
+            status: 'Accepted',
+            context: FIELDS.context,
+            decision: FIELDS.decision,
+            alternatives: FIELDS.alternatives,
+            confidence: 0.75
+        });
+    });
+
+    it('reads MADR front matter and options', () => {
+        const parsed = parseAdr([
+            '---',
+            'status: "proposed"',
+            '---',
+            '# ADR-0012: Adopt feature flags',
+            '',
+            '## Context and Problem Statement',
+            '',
+            'Releases are blocked on unfinished work.',
+            '',
+            '## Considered Options',
+            '',
+            '* **LaunchDarkly**',
+            '* Home-grown flags',
+            '',
+            '## Decision Outcome',
+            '',
+            'Chosen option: "LaunchDarkly".'
+        ].join('\r\n'), 'adopt-feature-flags.md');
+
+        assert.strictEqual(parsed?.title, 'Adopt feature flags');
+        assert.strictEqual(parsed?.number, undefined);
+        assert.strictEqual(parsed?.status, 'proposed');
+        assert.strictEqual(parsed?.context, 'Releases are blocked on unfinished work.');
+        assert.strictEqual(parsed?.decision, 'Chosen option: "LaunchDarkly".');
+        assert.deepStrictEqual(parsed?.alternatives, ['LaunchDarkly', 'Home-grown flags']);
+    });
+
+    it('reads an inline status line and leaves "None recorded." out of the alternatives', () => {
+        const parsed = parseAdr('# 3. Keep the monolith\n\nStatus: Superseded\n\n## Alternatives\n\nNone recorded.\n', '0003-keep.md');
+
+        assert.strictEqual(parsed?.status, 'Superseded');
+        assert.deepStrictEqual(parsed?.alternatives, []);
+        assert.strictEqual(parsed?.confidence, undefined);
+    });
+
+    it('does not take MADR decision drivers for the decision', () => {
+        const parsed = parseAdr('# Pick a queue\n\n## Decision Drivers\n\n* Cost\n', 'pick-a-queue.md');
+        assert.strictEqual(parsed?.decision, '');
+    });
+
+    it('returns undefined without a title', () => {
+        assert.strictEqual(parseAdr('Just some notes\n\n## Context\n\nNothing here.', 'notes.md'), undefined);
+    });
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { DiffHunk, createUnifiedDiff } from '../line-diff';
+
+// Applies hunks the way a server rebuilding edits would, checking context lines on the way
+function applyHunks(before: string, hunks: DiffHunk[]): string {
+    const lines = before.split('\n');
+    const result: string[] = [];
+    let next = 0;
+
+    for (const hunk of hunks) {
+        const [header, ...body] = hunk.text.split('\n');
+        const match = /^@@ -(\d+),(\d+) \+\d+,\d+ @@$/.exec(header);
+        assert.ok(match, `bad hunk header: ${header}`);
+        const start = Number(match[2]) === 0 ? Number(match[1]) : Number(match[1]) - 1;
+
+        result.push(...lines.slice(next, start));
+        next = start;
+        for (const line of body) {
+            const text = line.slice(1);
+            if (line[0] === '+') {
+                result.push(text);
+                continue;
+            }
+            assert.strictEqual(lines[next], text, `hunk does not match line ${next + 1}`);
+            if (line[0] === ' ') {
+                result.push(text);
+            }
+            next++;
+        }
+    }
+
+    return [...result, ...lines.slice(next)].join('\n');
+}
+
+describe('createUnifiedDiff', () => {
+    it('returns no hunks for identical text', () => {
+        assert.deepStrictEqual(createUnifiedDiff('a\nb\nc', 'a\nb\nc', 1), []);
+    });
+
+    it('writes a replaced line with its context', () => {
+        assert.deepStrictEqual(createUnifiedDiff('a\nb\nc', 'a\nB\nc', 1), [
+            { text: '@@ -1,3 +1,3 @@\n a\n-b\n+B\n c', added: 1, removed: 1 }
+        ]);
+    });
+
+    it('splits changes further apart than twice the context into separate hunks', () => {
+        const hunks = createUnifiedDiff('1\n2\n3\n4\n5\n6\n7\n8', 'X\n2\n3\n4\n5\n6\n7\nY', 1);
+
+        assert.deepStrictEqual(hunks.map(hunk => hunk.text.split('\n')[0]), ['@@ -1,2 +1,2 @@', '@@ -7,2 +7,2 @@']);
+    });
+
+    it('treats CRLF and LF line endings alike', () => {
+        assert.deepStrictEqual(createUnifiedDiff('a\r\nb', 'a\nb', 1), []);
+    });
+
+    it('produces hunks that rebuild the new text', () => {
+        const cases: [string, string][] = [
+            ['a\nb\nc\na\nb\nb\na', 'c\nb\na\nb\na\nc'],
+            ['a\nb\nc\nd', 'b\nc'],
+            ['a\nb', 'a\nb\nc'],
+            ['x', 'y\nx'],
+            ['', 'first line'],
+            ['one\ntwo\nthree\nfour\nfive\nsix', 'one\n2\nthree\nfour\nfive\nsix\nseven']
+        ];
+
+        for (const [before, after] of cases) {
+            assert.strictEqual(applyHunks(before, createUnifiedDiff(before, after, 1)), after, JSON.stringify([before, after]));
+        }
+    });
+
+    it('falls back to one replaced block past the edit distance limit', () => {
+        const before = Array.from({ length: 300 }, (_, index) => `old ${index}`).join('\n');
+        const after = Array.from({ length: 300 }, (_, index) => `new ${index}`).join('\n');
+        const hunks = createUnifiedDiff(before, after, 1);
+
+        assert.strictEqual(hunks.length, 1);
+        assert.strictEqual(hunks[0].removed, 300);
+        assert.strictEqual(hunks[0].added, 300);
+        assert.strictEqual(applyHunks(before, hunks), after);
+    });
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import axios from 'axios';
+import * as vscode from 'vscode';
+import { OfflineEventQueue, QueuedEvent, QueueSendResult } from '../offline-queue';
+import { RequestPolicy } from '../request-policy';
+import { StubServer, delay, reply, startStubServer } from './stub-server';
+
+function createOutputChannel(lines: string[]): vscode.OutputChannel {
+    return { appendLine: (line: string) => lines.push(line) } as unknown as vscode.OutputChannel;
+}
+
+// Classifies failures the way KnowledgeHubClient does when replaying
+function createSender(policy: RequestPolicy, url: string): (event: QueuedEvent) => Promise<QueueSendResult> {
+    return event => policy.execute('track', timeout => axios.post(url, event.payload, { timeout })).then(
+        () => 'sent' as const,
+        error => error?.response ? 'retry' as const : 'unreachable' as const
+    );
+}
+
+async function waitForEmpty(queue: OfflineEventQueue, timeoutMs: number): Promise<void> {
+    const started = Date.now();
+    while (queue.pendingCount > 0 && Date.now() - started < timeoutMs) {
+        await delay(20);
+    }
+}
+
+describe('OfflineEventQueue', () => {
+    let stub: StubServer | undefined;
+    let queue: OfflineEventQueue | undefined;
+
+    afterEach(async () => {
+        await queue?.dispose();
+        queue = undefined;
+        await stub?.close();
+        stub = undefined;
+    });
+
+    it('keeps events while the circuit is open and replays them once the server is back', async () => {
+        let status = 503;
+        stub = await startStubServer((_request, response) => reply(response, status));
+        const lines: string[] = [];
+        const policy = new RequestPolicy(createOutputChannel(lines));
+        policy.configure({ circuitBreaker: { failureThreshold: 1, cooldownMs: 300 } });
+
+        // The outage opens the circuit, then the server recovers during the cooldown
+        await assert.rejects(policy.execute('track', timeout => axios.post(stub!.url, {}, { timeout })));
+        status = 200;
+
+        queue = new OfflineEventQueue(undefined, createOutputChannel(lines), { maxAttempts: 2, initialBackoffMs: 20, maxBackoffMs: 40 });
+        ['a', 'b', 'c'].forEach(id => queue!.enqueue('/api/track', { id }));
+
+        assert.strictEqual(await queue.drain(createSender(policy, stub.url)), 0);
+        assert.strictEqual(stub.hits, 1);
+
+        await waitForEmpty(queue, 2000);
+        assert.strictEqual(queue.pendingCount, 0);
+        assert.strictEqual(stub.hits, 4);
+        assert.ok(!lines.some(line => line.includes('Dropping')), 'no event should be dropped while the circuit is open');
+        policy.dispose();
+    });
+
+    it('drops an event after maxAttempts responses asking for a retry', async () => {
+        stub = await startStubServer((_request, response) => reply(response, 500));
+        const lines: string[] = [];
+        const policy = new RequestPolicy(createOutputChannel(lines));
+        policy.configure({ circuitBreaker: { failureThreshold: 100 } });
+
+        queue = new OfflineEventQueue(undefined, createOutputChannel(lines), { maxAttempts: 2, initialBackoffMs: 20, maxBackoffMs: 40 });
+        queue.enqueue('/api/track', { id: 'a' });
+
+        await queue.drain(createSender(policy, stub.url));
+        await waitForEmpty(queue, 2000);
+        assert.strictEqual(queue.pendingCount, 0);
+        assert.strictEqual(stub.hits, 2);
+        assert.ok(lines.some(line => line.includes('Dropping offline event /api/track after 2 attempts')));
+        policy.dispose();
+    });
+});
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { PayloadRedactor, RedactorConfig } from '../payload-redactor';
+
+const ROOT = '/work/app';
+
+function createRedactor(config: Partial<RedactorConfig> = {}): PayloadRedactor {
+    const outputChannel = { appendLine: () => undefined } as unknown as vscode.OutputChannel;
+    const redactor = new PayloadRedactor(outputChannel);
+    redactor.configure({
+        excludeGlobs: ['.env', 'secrets/'],
+        respectGitignore: false,
+        detectHighEntropy: true,
+        entropyThreshold: 4.2,
+        rules: [],
+        ...config
+    });
+    return redactor;
+}
+
+describe('PayloadRedactor', () => {
+    before(() => {
+        (vscode.workspace as any).workspaceFolders = [{ uri: vscode.Uri.file(ROOT), name: 'app', index: 0 }];
+    });
+
+    after(() => {
+        (vscode.workspace as any).workspaceFolders = undefined;
+    });
+
+    describe('excluded files', () => {
+        it('resolves relative paths against the given folder or the workspace folders', () => {
+            const redactor = createRedactor();
+
+            assert.strictEqual(redactor.isExcluded(`${ROOT}/.env`), true);
+            assert.strictEqual(redactor.isExcluded('.env', ROOT), true);
+            assert.strictEqual(redactor.isExcluded('secrets/db.json'), true);
+            assert.strictEqual(redactor.isExcluded('src/index.ts'), false);
+        });
+
+        it('blanks memory content whose source is an excluded file', () => {
+            const redactor = createRedactor();
+            const memory = {
+                title: 'Database password',
+                content: 'DB_HOST=db.internal',
+                tags: ['config', '.env'],
+                source: { file: '.env', startLine: 1, endLine: 1, workspaceFolder: ROOT }
+            };
+
+            const redacted = redactor.redact(memory, '/api/memory/memories');
+            assert.strictEqual(redacted.content, '[excluded]');
+            assert.deepStrictEqual(redacted.tags, ['config', '.env']);
+            assert.strictEqual(memory.content, 'DB_HOST=db.internal', 'the original payload is left alone');
+        });
+
+        it('blanks completion and context text from excluded files', () => {
+            const redactor = createRedactor();
+
+            const completion = redactor.redact({ prompt: 'p', prefix: 'a', suffix: 'b', file: `${ROOT}/.env` }, 'completion');
+            assert.deepStrictEqual(completion, { prompt: '[excluded]', prefix: '[excluded]', suffix: '[excluded]', file: `${ROOT}/.env` });
+
+            const context = redactor.redact({ query: 'API_URL=x', currentFile: `${ROOT}/.env` }, 'context');
+            assert.strictEqual(context.query, '[excluded]');
+        });
+    });
+
+    describe('secret assignments', () => {
+        it('redacts quoted literals and secret-looking values', () => {
+            const redactor = createRedactor();
+            const redact = (text: string) => redactor.redact({ text }, 'track').text;
+
+            assert.strictEqual(redact('password: "hunter22"'), 'password: "[REDACTED:secret-assignment]"');
+            assert.strictEqual(redact("const apiKey = 'abc123def456';"), "const apiKey = '[REDACTED:secret-assignment]';");
+            assert.strictEqual(redact('DB_PASSWORD=hunter22'), 'DB_PASSWORD=[REDACTED:secret-assignment]');
+            assert.strictEqual(redact('client_secret: s3cr3tValue'), 'client_secret: [REDACTED:secret-assignment]');
+        });
+
+        it('leaves ordinary code alone', () => {
+            const redactor = createRedactor();
+            const lines = [
+                'password: string',
+                'tokens: number',
+                'private token?: Promise<string>;',
+                "const apiKey = config.get('apiKey')",
+                'token = this.readToken()',
+                'const secret = process.env.SECRET;'
+            ];
+
+            for (const line of lines) {
+                assert.strictEqual(redactor.redact({ diff: line }, 'track').diff, line);
+            }
+        });
+    });
+
+    describe('high-entropy strings', () => {
+        const token = 'q8ZtR3vN6yLp2WxK9mBc4HjF7sDa';
+
+        it('redacts random tokens', () => {
+            const redacted = createRedactor().redact({ text: `const key = "${token}";` }, 'track');
+            assert.strictEqual(redacted.text, 'const key = "[REDACTED:high-entropy]";');
+        });
+
+        it('leaves file paths alone', () => {
+            const file = `${ROOT}/src/services/payment2/stripeWebhookHandler.ts`;
+            const payload = {
+                file,
+                workspaceRoot: '/home/dev/projects/payment2-service-backend',
+                openFiles: [file],
+                diff: '+import { handle } from "./src/services/payment2/stripeWebhookHandler";'
+            };
+
+            assert.deepStrictEqual(createRedactor().redact(payload, 'track'), payload);
+        });
+
+        it('still finds tokens inside paths', () => {
+            const redacted = createRedactor().redact({ text: `https://hooks.example.com/services/${token}` }, 'track');
+            assert.ok(!redacted.text.includes(token));
+            assert.ok(redacted.text.includes('[REDACTED:high-entropy]'));
+        });
+    });
+});
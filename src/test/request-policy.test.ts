@@ -0,0 +1,201 @@
+import * as assert from 'assert';
+import axios from 'axios';
+import * as vscode from 'vscode';
+import { CircuitOpenError, EndpointName, RequestPolicy } from '../request-policy';
+import { StubServer, delay, reply, startStubServer } from './stub-server';
+
+function createPolicy(lines: string[] = []): RequestPolicy {
+    const outputChannel = { appendLine: (line: string) => lines.push(line) } as unknown as vscode.OutputChannel;
+    return new RequestPolicy(outputChannel);
+}
+
+function send(policy: RequestPolicy, endpoint: EndpointName, url: string) {
+    return policy.execute(endpoint, timeout => axios.get(url, { timeout }));
+}
+
+describe('RequestPolicy', () => {
+    let stub: StubServer | undefined;
+
+    afterEach(async () => {
+        await stub?.close();
+        stub = undefined;
+    });
+
+    describe('timeouts', () => {
+        it('applies the timeout of the endpoint class', async () => {
+            stub = await startStubServer((_request, response) => reply(response, 200, 300));
+            const policy = createPolicy();
+            policy.configure({ endpoints: { context: { timeoutMs: 100 }, memories: { timeoutMs: 2000, retries: 0 } } });
+
+            const started = Date.now();
+            await assert.rejects(send(policy, 'context', stub.url), (error: any) => error.code === 'ECONNABORTED');
+            assert.ok(Date.now() - started < 300, 'context should give up before the server answers');
+
+            const response = await send(policy, 'memories', stub.url);
+            assert.strictEqual(response.status, 200);
+        });
+
+        it('passes the default per-endpoint timeouts to the request', async () => {
+            const policy = createPolicy();
+            const timeouts: Partial<Record<EndpointName, number>> = {};
+            for (const endpoint of ['context', 'memories', 'analyze'] as EndpointName[]) {
+                await policy.execute(endpoint, async timeout => {
+                    timeouts[endpoint] = timeout;
+                });
+            }
+
+            assert.deepStrictEqual(timeouts, { context: 1500, memories: 5000, analyze: 30000 });
+        });
+    });
+
+    describe('retries', () => {
+        it('retries 5xx responses', async () => {
+            stub = await startStubServer((_request, response, hit) => reply(response, hit < 3 ? 503 : 200));
+            const policy = createPolicy();
+            policy.configure({ endpoints: { memories: { retries: 2, retryBaseDelayMs: 10 } } });
+
+            const response = await send(policy, 'memories', stub.url);
+            assert.strictEqual(response.status, 200);
+            assert.strictEqual(stub.hits, 3);
+        });
+
+        it('retries network errors', async () => {
+            stub = await startStubServer((request, response, hit) => {
+                if (hit === 1) {
+                    request.socket.destroy();
+                } else {
+                    reply(response, 200);
+                }
+            });
+            const policy = createPolicy();
+            policy.configure({ endpoints: { memories: { retries: 1, retryBaseDelayMs: 10 } } });
+
+            const response = await send(policy, 'memories', stub.url);
+            assert.strictEqual(response.status, 200);
+            assert.strictEqual(stub.hits, 2);
+        });
+
+        it('does not retry 4xx responses', async () => {
+            stub = await startStubServer((_request, response) => reply(response, 404));
+            const policy = createPolicy();
+            policy.configure({ endpoints: { memories: { retries: 2, retryBaseDelayMs: 10 } } });
+
+            await assert.rejects(send(policy, 'memories', stub.url), (error: any) => error.response?.status === 404);
+            assert.strictEqual(stub.hits, 1);
+        });
+
+        it('makes retries + 1 attempts, and only one for non-idempotent endpoints', async () => {
+            stub = await startStubServer((_request, response) => reply(response, 500));
+            const policy = createPolicy();
+            policy.configure({
+                endpoints: {
+                    memories: { retries: 3, retryBaseDelayMs: 5 },
+                    track: { retries: 3, retryBaseDelayMs: 5 }
+                }
+            });
+
+            await assert.rejects(send(policy, 'memories', stub.url));
+            assert.strictEqual(stub.hits, 4);
+
+            await assert.rejects(send(policy, 'track', stub.url));
+            assert.strictEqual(stub.hits, 5);
+        });
+
+        it('backs off exponentially with jitter between half and the full delay', async () => {
+            stub = await startStubServer((_request, response) => reply(response, 500));
+            const lines: string[] = [];
+            const policy = createPolicy(lines);
+            policy.configure({ endpoints: { memories: { retries: 3, retryBaseDelayMs: 40 } } });
+
+            for (let run = 0; run < 3; run++) {
+                await assert.rejects(send(policy, 'memories', stub.url));
+            }
+
+            const delays = lines
+                .map(line => /Retrying memories in (\d+)ms \(attempt (\d+)\/4\)/.exec(line))
+                .filter((match): match is RegExpExecArray => match !== null)
+                .map(match => ({ delay: Number(match[1]), attempt: Number(match[2]) }));
+            assert.strictEqual(delays.length, 9);
+            for (const { delay: retryDelay, attempt } of delays) {
+                const full = 40 * Math.pow(2, attempt - 2);
+                assert.ok(retryDelay >= full / 2 && retryDelay <= full, `attempt ${attempt} waited ${retryDelay}ms, expected ${full / 2}-${full}ms`);
+            }
+        });
+    });
+
+    describe('circuit breaker', () => {
+        it('opens after repeated failures, lets one trial through when half-open, and closes on success', async () => {
+            let status = 500;
+            stub = await startStubServer((_request, response) => reply(response, status, status === 200 ? 50 : 0));
+            const policy = createPolicy();
+            policy.configure({ circuitBreaker: { failureThreshold: 2, cooldownMs: 150 } });
+            const events: EndpointName[][] = [];
+            policy.onDidChangeOpenCircuits(open => events.push(open));
+
+            // Closed: failures reach the server until the threshold
+            await assert.rejects(send(policy, 'context', stub.url));
+            await assert.rejects(send(policy, 'context', stub.url));
+            assert.strictEqual(stub.hits, 2);
+            assert.deepStrictEqual(policy.getOpenCircuits(), ['context']);
+            assert.deepStrictEqual(events, [['context']]);
+
+            // Open: requests fail fast without reaching the server
+            await assert.rejects(send(policy, 'context', stub.url), CircuitOpenError);
+            assert.strictEqual(stub.hits, 2);
+
+            // Half-open: one trial goes through while others still fail fast
+            await delay(200);
+            status = 200;
+            const trial = send(policy, 'context', stub.url);
+            await assert.rejects(send(policy, 'context', stub.url), CircuitOpenError);
+            assert.strictEqual((await trial).status, 200);
+            assert.strictEqual(stub.hits, 3);
+
+            // Closed again
+            assert.deepStrictEqual(policy.getOpenCircuits(), []);
+            assert.deepStrictEqual(events[events.length - 1], []);
+            assert.strictEqual((await send(policy, 'context', stub.url)).status, 200);
+            assert.strictEqual(stub.hits, 4);
+        });
+
+        it('reopens when the half-open trial fails', async () => {
+            stub = await startStubServer((_request, response) => reply(response, 502));
+            const policy = createPolicy();
+            policy.configure({ circuitBreaker: { failureThreshold: 1, cooldownMs: 100 } });
+
+            await assert.rejects(send(policy, 'context', stub.url));
+            await delay(150);
+            await assert.rejects(send(policy, 'context', stub.url), (error: any) => error.response?.status === 502);
+            await assert.rejects(send(policy, 'context', stub.url), CircuitOpenError);
+            assert.strictEqual(stub.hits, 2);
+        });
+
+        it('tells listeners when the cooldown ends without waiting for a request', async () => {
+            stub = await startStubServer((_request, response) => reply(response, 503));
+            const policy = createPolicy();
+            policy.configure({ circuitBreaker: { failureThreshold: 1, cooldownMs: 100 } });
+            const events: EndpointName[][] = [];
+            policy.onDidChangeOpenCircuits(open => events.push(open));
+
+            await assert.rejects(send(policy, 'context', stub.url));
+            assert.deepStrictEqual(events, [['context']]);
+
+            await delay(150);
+            assert.deepStrictEqual(events, [['context'], []]);
+            assert.strictEqual(stub.hits, 1);
+            policy.dispose();
+        });
+
+        it('does not count 4xx responses as failures', async () => {
+            stub = await startStubServer((_request, response) => reply(response, 400));
+            const policy = createPolicy();
+            policy.configure({ circuitBreaker: { failureThreshold: 2, cooldownMs: 1000 } });
+
+            for (let attempt = 0; attempt < 3; attempt++) {
+                await assert.rejects(send(policy, 'context', stub.url), (error: any) => error.response?.status === 400);
+            }
+            assert.strictEqual(stub.hits, 3);
+            assert.deepStrictEqual(policy.getOpenCircuits(), []);
+        });
+    });
+});
@@ -0,0 +1,11 @@
+import * as path from 'path';
+
+// Resolve `import * as vscode from 'vscode'` to the stub outside the extension host
+const Module = require('module');
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request: string, ...rest: unknown[]) {
+    if (request === 'vscode') {
+        return path.join(__dirname, 'vscode-stub.ts');
+    }
+    return resolveFilename.call(this, request, ...rest);
+};
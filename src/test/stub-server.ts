@@ -0,0 +1,39 @@
+import * as http from 'http';
+import { AddressInfo, Socket } from 'net';
+
+// A local HTTP server standing in for KnowledgeHub in tests
+export interface StubServer {
+    url: string;
+    hits: number;
+    close(): Promise<void>;
+}
+
+// Each request is answered by the handler; hits counts requests received
+export async function startStubServer(handler: (request: http.IncomingMessage, response: http.ServerResponse, hit: number) => void): Promise<StubServer> {
+    const sockets: Set<Socket> = new Set();
+    const stub = { url: '', hits: 0, close: () => Promise.resolve() };
+    const server = http.createServer((request, response) => handler(request, response, ++stub.hits));
+    server.on('connection', socket => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    stub.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    stub.close = () => new Promise<void>(resolve => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => resolve());
+    });
+    return stub;
+}
+
+export function reply(response: http.ServerResponse, status: number, delayMs: number = 0): void {
+    setTimeout(() => {
+        response.statusCode = status;
+        response.end(JSON.stringify({ status }));
+    }, delayMs);
+}
+
+export function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
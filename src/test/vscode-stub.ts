@@ -0,0 +1,47 @@
+// The parts of the vscode module used by code under unit test. The real
+// module only exists inside the extension host.
+export class EventEmitter<T> {
+    private listeners: Set<(event: T) => void> = new Set();
+
+    readonly event = (listener: (event: T) => void) => {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    };
+
+    fire(event: T): void {
+        Array.from(this.listeners).forEach(listener => listener(event));
+    }
+
+    dispose(): void {
+        this.listeners.clear();
+    }
+}
+
+export class Uri {
+    private constructor(readonly scheme: string, readonly fsPath: string) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri('file', fsPath);
+    }
+
+    toString(): string {
+        return `${this.scheme}://${this.fsPath}`;
+    }
+}
+
+export interface WorkspaceFolder {
+    uri: Uri;
+    name: string;
+    index: number;
+}
+
+// Tests set the open folders directly
+export const workspace = {
+    workspaceFolders: undefined as WorkspaceFolder[] | undefined,
+
+    getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+        return (this.workspaceFolders ?? [])
+            .filter(folder => uri.fsPath === folder.uri.fsPath || uri.fsPath.startsWith(folder.uri.fsPath + '/'))
+            .sort((a, b) => b.uri.fsPath.length - a.uri.fsPath.length)[0];
+    }
+};
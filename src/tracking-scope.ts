@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+
+export type TrackingMode = 'everyEdit' | 'savesOnly';
+
+export interface TrackingScopeConfig {
+    enabled: boolean;
+    mode: TrackingMode;
+    includeLanguages: string[];
+    excludeLanguages: string[];
+    // Globs relative to each workspace folder
+    includeGlobs: string[];
+    excludeGlobs: string[];
+}
+
+/**
+ * Decides which documents change tracking sees, from the
+ * knowledgehub.memory.* settings plus a temporary pause. Settings apply
+ * live; listeners are told whenever the effective scope changes.
+ */
+export class TrackingScope {
+    private config: TrackingScopeConfig;
+    private pausedUntil?: number;
+    private resumeTimer?: NodeJS.Timeout;
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor() {
+        this.config = this.readConfig();
+
+        this.disposables.push(
+            this.changeEmitter,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('knowledgehub.memory')) {
+                    this.config = this.readConfig();
+                    this.changeEmitter.fire();
+                }
+            })
+        );
+    }
+
+    get mode(): TrackingMode {
+        return this.config.mode;
+    }
+
+    /** Tracking is on and not paused. */
+    get isTracking(): boolean {
+        return this.config.enabled && !this.isPaused;
+    }
+
+    get isPaused(): boolean {
+        return this.pausedUntil !== undefined && Date.now() < this.pausedUntil;
+    }
+
+    /** When a timed pause ends; Infinity for a pause that lasts until resumed. */
+    getPausedUntil(): number | undefined {
+        return this.isPaused ? this.pausedUntil : undefined;
+    }
+
+    shouldTrack(document: vscode.TextDocument): boolean {
+        if (!this.isTracking || document.uri.scheme !== 'file') {
+            return false;
+        }
+
+        const { includeLanguages, excludeLanguages, includeGlobs, excludeGlobs } = this.config;
+        if (includeLanguages.length > 0 && !includeLanguages.includes(document.languageId)) {
+            return false;
+        }
+        if (excludeLanguages.includes(document.languageId)) {
+            return false;
+        }
+        if (includeGlobs.length > 0 && !this.matchesAny(document, includeGlobs)) {
+            return false;
+        }
+        return !this.matchesAny(document, excludeGlobs);
+    }
+
+    pause(minutes?: number): void {
+        this.clearResumeTimer();
+        this.pausedUntil = minutes === undefined ? Infinity : Date.now() + minutes * 60 * 1000;
+
+        if (minutes !== undefined) {
+            this.resumeTimer = setTimeout(() => this.resume(), minutes * 60 * 1000);
+        }
+        this.changeEmitter.fire();
+    }
+
+    resume(): void {
+        this.clearResumeTimer();
+        this.pausedUntil = undefined;
+        this.changeEmitter.fire();
+    }
+
+    /** Short label for the status bar and tree view, e.g. "Every edit" or "Paused until 14:30". */
+    describe(): string {
+        if (!this.config.enabled) {
+            return 'Off';
+        }
+        if (this.isPaused) {
+            return this.pausedUntil === Infinity
+                ? 'Paused'
+                : `Paused until ${new Date(this.pausedUntil!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+        }
+        return this.config.mode === 'savesOnly' ? 'Saves only' : 'Every edit';
+    }
+
+    /** The language and folder filters in effect, one line each. */
+    describeFilters(): string[] {
+        const { includeLanguages, excludeLanguages, includeGlobs, excludeGlobs } = this.config;
+        const lines: string[] = [];
+        if (includeLanguages.length > 0) {
+            lines.push(`Languages: ${includeLanguages.join(', ')}`);
+        }
+        if (excludeLanguages.length > 0) {
+            lines.push(`Excluded languages: ${excludeLanguages.join(', ')}`);
+        }
+        if (includeGlobs.length > 0) {
+            lines.push(`Folders: ${includeGlobs.join(', ')}`);
+        }
+        if (excludeGlobs.length > 0) {
+            lines.push(`Excluded folders: ${excludeGlobs.join(', ')}`);
+        }
+        return lines;
+    }
+
+    dispose(): void {
+        this.clearResumeTimer();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private matchesAny(document: vscode.TextDocument, globs: string[]): boolean {
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+        return globs.some(glob => vscode.languages.match(
+            { pattern: folder ? new vscode.RelativePattern(folder, glob) : glob },
+            document
+        ) > 0);
+    }
+
+    private clearResumeTimer(): void {
+        if (this.resumeTimer) {
+            clearTimeout(this.resumeTimer);
+            this.resumeTimer = undefined;
+        }
+    }
+
+    private readConfig(): TrackingScopeConfig {
+        const config = vscode.workspace.getConfiguration('knowledgehub.memory');
+        return {
+            enabled: config.get('trackChanges', true),
+            mode: config.get<TrackingMode>('trackingMode', 'everyEdit'),
+            includeLanguages: config.get('includeLanguages', []),
+            excludeLanguages: config.get('excludeLanguages', []),
+            includeGlobs: config.get('includeGlobs', []),
+            excludeGlobs: config.get('excludeGlobs', [])
+        };
+    }
+}
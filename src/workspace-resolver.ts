@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+
+/**
+ * Multi-root workspaces hold several projects, so context is resolved from
+ * the document it is about rather than from the first folder. Targets may be
+ * URIs or absolute file paths; without one the active editor's document is
+ * used.
+ */
+export function resolveWorkspaceFolder(target?: vscode.Uri | string): vscode.WorkspaceFolder | undefined {
+    const uri = toUri(target) ?? getActiveDocumentUri();
+    const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+    // Untitled and out-of-workspace files belong to the first folder, as before
+    return folder ?? vscode.workspace.workspaceFolders?.[0];
+}
+
+export function getActiveDocumentUri(): vscode.Uri | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    return document && document.uri.scheme === 'file' ? document.uri : undefined;
+}
+
+/**
+ * Lets the user pick a workspace folder, skipping the prompt when there is
+ * only one. With allowAll, "All folders" returns every folder.
+ */
+export async function pickWorkspaceFolders(title: string, allowAll: boolean): Promise<readonly vscode.WorkspaceFolder[] | undefined> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length <= 1) {
+        return folders;
+    }
+
+    const active = resolveWorkspaceFolder();
+    const items: (vscode.QuickPickItem & { folders: readonly vscode.WorkspaceFolder[] })[] = folders.map(folder => ({
+        label: `$(folder) ${folder.name}`,
+        description: folder === active ? 'active' : undefined,
+        detail: folder.uri.fsPath,
+        folders: [folder]
+    }));
+    if (allowAll) {
+        items.push({ label: '$(folder-library) All folders', description: `${folders.length} folders`, folders });
+    }
+
+    const selection = await vscode.window.showQuickPick(items, { title });
+    return selection?.folders;
+}
+
+function toUri(target?: vscode.Uri | string): vscode.Uri | undefined {
+    if (!target) {
+        return undefined;
+    }
+    return typeof target === 'string' ? vscode.Uri.file(target) : target;
+}
+